@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Tesseract starts its WebAssembly worker from files inside its own package
+  serverExternalPackages: ["tesseract.js"],
 };
 
 export default nextConfig;
@@ -0,0 +1,116 @@
+// scripts/import-catalog.ts
+//
+// Load set lists from JSON or CSV dumps into the card catalog.
+//
+//   npm run catalog:import -- data/seed/base-set.csv data/seed/sword-shield-highlights.json
+//   npm run catalog:import -- --replace --out data/catalog.json dump.csv
+//
+// CSV files need a header row; column names are matched case-insensitively
+// (name, set, setCode, number, rarity, marketPrice, variants, imageUrl).
+// Variants in CSV are pipe separated, e.g. "Near Mint|Lightly Played".
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCSV, CSVRow } from '../src/lib/csv';
+import { FileCardRepository, CatalogImportRecord, DEFAULT_CATALOG_PATH, toCatalogEntry } from '../src/lib/catalog';
+import { recordPrices } from '../src/lib/priceHistory';
+import { CardDatabaseEntry } from '../src/lib/types';
+
+const CSV_COLUMNS: Record<string, keyof CatalogImportRecord> = {
+  id: 'id',
+  name: 'name',
+  set: 'set',
+  setname: 'set',
+  setcode: 'setCode',
+  number: 'number',
+  rarity: 'rarity',
+  marketprice: 'marketPrice',
+  price: 'marketPrice',
+  variants: 'variants',
+  imageurl: 'imageUrl',
+  lastupdated: 'lastUpdated'
+};
+
+const fromCSVRow = (row: CSVRow): CatalogImportRecord => {
+  const record: Record<string, string> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = CSV_COLUMNS[column.replace(/[\s_-]/g, '')];
+    if (field && value) {
+      record[field] = value;
+    }
+  }
+  return record as CatalogImportRecord;
+};
+
+const readRecords = async (file: string): Promise<CatalogImportRecord[]> => {
+  const raw = await fs.readFile(file, 'utf-8');
+  const extension = path.extname(file).toLowerCase();
+
+  if (extension === '.json') {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${file}: expected a JSON array of cards`);
+    }
+    return parsed;
+  }
+
+  if (extension === '.csv' || extension === '.tsv') {
+    return parseCSV(raw, extension === '.tsv' ? '\t' : ',').map(fromCSVRow);
+  }
+
+  throw new Error(`${file}: unsupported file type (use .json, .csv or .tsv)`);
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  let replace = false;
+  let outPath = process.env.CARD_CATALOG_PATH || DEFAULT_CATALOG_PATH;
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--replace') {
+      replace = true;
+    } else if (args[i] === '--out') {
+      outPath = args[++i];
+    } else {
+      files.push(args[i]);
+    }
+  }
+
+  if (files.length === 0) {
+    console.error('Usage: import-catalog [--replace] [--out catalog.json] <file.json|file.csv>...');
+    process.exit(1);
+  }
+
+  if (replace) {
+    await fs.rm(outPath, { force: true });
+  }
+
+  const repository = new FileCardRepository(outPath);
+  const entries: CardDatabaseEntry[] = [];
+  let skipped = 0;
+
+  for (const file of files) {
+    const records = await readRecords(file);
+    records.forEach((record, index) => {
+      try {
+        entries.push(toCatalogEntry(record));
+      } catch (error) {
+        skipped++;
+        console.warn(`${file}: skipping record ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  const imported = await repository.upsertMany(entries);
+  const total = (await repository.list()).length;
+  const priced = await recordPrices(entries);
+
+  console.log(`Imported ${imported} cards (${skipped} skipped) into ${outPath}; catalog now has ${total} cards`);
+  console.log(`Recorded ${priced} price changes`);
+}
+
+main().catch(error => {
+  console.error('Catalog import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+// scripts/index-card-images.ts
+//
+// Hash the picture (imageUrl) of every catalog card, so photos can be
+// matched by how they look when their text can't be read.
+//
+//   npm run catalog:index-images
+//   npm run catalog:index-images -- --rebuild
+//
+// Only cards that are new or whose imageUrl changed are hashed unless
+// --rebuild is given. Restart the server afterwards to pick up the index.
+// Pictures come from the catalog's imageUrl, set by an imageUrl column in
+// the files given to catalog:import; the seed files have none.
+
+import { indexCardImages } from '../src/lib/imageIndex';
+
+async function main() {
+  const rebuild = process.argv.includes('--rebuild');
+
+  const result = await indexCardImages({
+    rebuild,
+    onProgress: (done, total) => {
+      if (done % 100 === 0 || done === total) {
+        console.log(`Hashed ${done}/${total} pictures`);
+      }
+    }
+  });
+
+  console.log(`Indexed ${result.indexed} cards, ${result.unchanged} unchanged, ${result.withoutImage} without an imageUrl`);
+
+  if (result.failed.length > 0) {
+    console.error(`Failed to hash ${result.failed.length} pictures:`);
+    for (const failure of result.failed) {
+      console.error(`  ${failure.id}: ${failure.error}`);
+    }
+    process.exitCode = 1;
+  }
+
+  // An empty index quietly turns off matching by picture, so say so
+  if (result.indexed + result.unchanged === 0) {
+    console.error('No card pictures were indexed. Import cards with an imageUrl column first (see "Recognising cards by their picture" in the README).');
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Image indexing failed:', error);
+  process.exit(1);
+});
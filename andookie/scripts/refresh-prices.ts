@@ -0,0 +1,26 @@
+// scripts/refresh-prices.ts
+//
+// Pull prices from the configured providers into the card catalog once,
+// e.g. from cron. The server can also do this on a timer, see README.
+//
+//   npm run prices:refresh
+//   PRICE_FIXTURES=tcgplayer:prices.json npm run prices:refresh
+
+import { refreshPrices } from '../src/lib/priceRefresh';
+
+async function main() {
+  const result = await refreshPrices();
+
+  console.log(`Updated ${result.updated} cards, ${result.unchanged} unchanged`);
+  console.log(`${result.manual} kept their manual price, ${result.missing} had no fresh price`);
+
+  if (result.failedProviders.length > 0) {
+    console.error(`Failed providers: ${result.failedProviders.join(', ')}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Price refresh failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ClipboardCheck, Package } from 'lucide-react';
+import { CardCondition, CardGrade, Order, OrderStatus } from '@/lib/types';
+import { CARD_OUTCOME_LABELS, canTransition, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { getCardTotals } from '@/lib/utils';
+
+const CONDITIONS: CardCondition[] = ['Mint', 'Near Mint', 'Lightly Played', 'Moderately Played', 'Heavily Played'];
+
+// Status buttons staff can press, in the order they usually come up
+const STATUS_ACTIONS: { status: OrderStatus; label: string }[] = [
+  { status: 'in_transit', label: 'Mark in transit' },
+  { status: 'received', label: 'Check in package' },
+  { status: 'paid', label: 'Mark paid' },
+  { status: 'returned', label: 'Return cards' }
+];
+
+export default function IntakePage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [selected, setSelected] = useState<Order | null>(null);
+  const [grades, setGrades] = useState<Record<number, CardGrade>>({});
+  const [preview, setPreview] = useState<Order | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [scanInput, setScanInput] = useState('');
+
+  const loadOrders = async () => {
+    try {
+      const response = await fetch('/api/admin/orders');
+      const result = await response.json();
+
+      if (result.success) {
+        setOrders(result.data);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error loading orders:', err);
+      setError('Failed to load orders.');
+    }
+  };
+
+  useEffect(() => {
+    loadOrders();
+  }, []);
+
+  const selectOrder = (order: Order) => {
+    setSelected(order);
+    setPreview(null);
+    setError(null);
+    // Start every card at the condition the seller listed
+    setGrades(Object.fromEntries(order.cards.map(card => [
+      card.id,
+      { cardId: card.id, condition: card.gradedCondition || card.condition, note: card.gradeNote || '' }
+    ])));
+  };
+
+  // Barcode scanners type the packing slip's order id followed by Enter
+  const handleScan = (event: React.FormEvent) => {
+    event.preventDefault();
+    const id = scanInput.trim().toUpperCase();
+    if (!id) return;
+
+    const order = orders.find(candidate => candidate.id === id);
+    if (order) {
+      selectOrder(order);
+    } else {
+      setError(`No open order ${id}`);
+    }
+    setScanInput('');
+  };
+
+  const updateGrade = (cardId: number, changes: Partial<CardGrade>) => {
+    setGrades(prev => ({ ...prev, [cardId]: { ...prev[cardId], ...changes } }));
+    setPreview(null);
+  };
+
+  const submitGrades = async (previewOnly: boolean) => {
+    if (!selected) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${selected.id}/grade`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grades: Object.values(grades), preview: previewOnly })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      if (previewOnly) {
+        setPreview(result.data);
+      } else {
+        selectOrder(result.data);
+        await loadOrders();
+      }
+    } catch (err) {
+      console.error('Error grading order:', err);
+      setError('Failed to save grades.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateStatus = async (status: OrderStatus) => {
+    if (!selected) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${selected.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      selectOrder(result.data);
+      await loadOrders();
+    } catch (err) {
+      console.error('Error updating order:', err);
+      setError('Failed to update the order.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shown = preview || selected;
+  const isGraded = shown?.cards.every(card => card.adjustedOffer !== undefined);
+  const adjustedTotal = shown && isGraded ? getCardTotals(shown.cards.map(card => ({ ...card, ourOffer: card.adjustedOffer! }))).totalOffer : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">Intake</h1>
+          <p className="text-gray-600">Check in packages and grade every card before paying out</p>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div className="bg-white rounded-xl shadow-lg p-4">
+            <h2 className="text-lg font-semibold mb-3 flex items-center">
+              <Package className="w-5 h-5 mr-2 text-blue-600" />
+              Open Orders
+            </h2>
+            <form onSubmit={handleScan} className="mb-3">
+              <input
+                type="text"
+                value={scanInput}
+                onChange={(e) => setScanInput(e.target.value)}
+                placeholder="Scan or type packing slip order id"
+                className="w-full p-2 border border-gray-300 rounded-lg font-mono text-sm"
+              />
+            </form>
+            {orders.length === 0 && <p className="text-sm text-gray-500">Nothing waiting on us.</p>}
+            <div className="space-y-2">
+              {orders.map(order => (
+                <button
+                  key={order.id}
+                  onClick={() => selectOrder(order)}
+                  className={`w-full text-left border rounded-lg p-3 hover:bg-gray-50 ${selected?.id === order.id ? 'border-blue-500 bg-blue-50' : ''}`}
+                >
+                  <p className="font-mono text-sm text-gray-800">{order.id}</p>
+                  <p className="text-xs text-gray-500">
+                    {ORDER_STATUS_LABELS[order.status]} · {order.cards.length} cards · ${order.totalOffer.toFixed(2)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="md:col-span-2 bg-white rounded-xl shadow-lg p-6">
+            {!shown ? (
+              <p className="text-gray-500">Select an order to work on.</p>
+            ) : (
+              <>
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold font-mono">{shown.id}</h2>
+                    <p className="text-sm text-gray-500">
+                      {ORDER_STATUS_LABELS[(selected ?? shown).status]}{preview && ' (previewing grades)'} · {shown.customerInfo.name} · {shown.shippingLabel.trackingNumber}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {!preview && STATUS_ACTIONS.filter(action => canTransition(shown.status, action.status)).map(action => (
+                      <button
+                        key={action.status}
+                        onClick={() => updateStatus(action.status)}
+                        disabled={isSaving || shown.adjustment?.decision === 'pending'}
+                        className="px-3 py-2 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+                )}
+
+                {shown.adjustment?.decision === 'pending' && !preview && (
+                  <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    Waiting on the seller to accept the adjusted offer or ask for a return.
+                  </div>
+                )}
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Card</th>
+                        <th className="py-2">Listed</th>
+                        <th className="py-2">Graded</th>
+                        <th className="py-2 text-right">Original</th>
+                        <th className="py-2 text-right">Adjusted</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shown.cards.map(card => {
+                        const adjustedOffer = card.adjustedOffer ?? card.ourOffer;
+                        return (
+                          <tr key={card.id} className="border-b align-top">
+                            <td className="py-2">
+                              <p className="font-medium text-gray-800">
+                                {card.name}{card.quantity > 1 && <span className="text-blue-600"> ×{card.quantity}</span>}
+                              </p>
+                              <p className="text-xs text-gray-500">{card.set} #{card.number}</p>
+                              <p className="text-xs text-gray-500">{CARD_OUTCOME_LABELS[card.outcome]}</p>
+                            </td>
+                            <td className="py-2">{card.condition}</td>
+                            <td className="py-2">
+                              {selected?.status === 'received' ? (
+                                <div className="space-y-1">
+                                  <select
+                                    value={grades[card.id]?.condition}
+                                    onChange={(e) => updateGrade(card.id, { condition: e.target.value as CardCondition })}
+                                    className="p-1 border rounded"
+                                  >
+                                    {CONDITIONS.map(condition => (
+                                      <option key={condition} value={condition}>{condition}</option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="text"
+                                    placeholder="Note (e.g. whitening on back)"
+                                    value={grades[card.id]?.note || ''}
+                                    onChange={(e) => updateGrade(card.id, { note: e.target.value })}
+                                    className="w-full p-1 border rounded text-xs"
+                                  />
+                                </div>
+                              ) : (
+                                <>
+                                  <p>{card.gradedCondition || '—'}</p>
+                                  {card.gradeNote && <p className="text-xs text-gray-500">{card.gradeNote}</p>}
+                                </>
+                              )}
+                            </td>
+                            <td className="py-2 text-right">${(card.ourOffer * card.quantity).toFixed(2)}</td>
+                            <td className={`py-2 text-right ${adjustedOffer < card.ourOffer ? 'text-red-600' : adjustedOffer > card.ourOffer ? 'text-green-600' : ''}`}>
+                              {card.adjustedOffer !== undefined ? `$${(adjustedOffer * card.quantity).toFixed(2)}` : '—'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                    <tfoot>
+                      <tr className="font-semibold">
+                        <td className="py-2" colSpan={3}>Total</td>
+                        <td className="py-2 text-right">${shown.totalOffer.toFixed(2)}</td>
+                        <td className="py-2 text-right">
+                          {adjustedTotal !== undefined ? `$${adjustedTotal.toFixed(2)}` : '—'}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+
+                {selected?.status === 'received' && (
+                  <div className="flex justify-end gap-3 mt-6">
+                    <button
+                      onClick={() => submitGrades(true)}
+                      disabled={isSaving}
+                      className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Preview adjustment
+                    </button>
+                    <button
+                      onClick={() => submitGrades(false)}
+                      disabled={isSaving}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center"
+                    >
+                      <ClipboardCheck className="w-4 h-4 mr-2" />
+                      Save grades
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { History, Save, Search } from 'lucide-react';
+import { AuditEntry, CardCondition, CardDatabaseEntry, CatalogEntryUpdate, PriceData } from '@/lib/types';
+
+const CONDITIONS: { condition: CardCondition; short: string }[] = [
+  { condition: 'Mint', short: 'M' },
+  { condition: 'Near Mint', short: 'NM' },
+  { condition: 'Lightly Played', short: 'LP' },
+  { condition: 'Moderately Played', short: 'MP' },
+  { condition: 'Heavily Played', short: 'HP' }
+];
+
+type PriceOverride = NonNullable<CatalogEntryUpdate['priceOverride']>;
+
+const PRICE_FIELDS: { field: keyof PriceOverride; label: string }[] = [
+  { field: 'marketPrice', label: 'Market' },
+  { field: 'lowPrice', label: 'Low' },
+  { field: 'midPrice', label: 'Mid' },
+  { field: 'highPrice', label: 'High' }
+];
+
+type CatalogQuery = { name: string; set: string; number: string };
+
+const EMPTY_QUERY: CatalogQuery = { name: '', set: '', number: '' };
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'number') return `$${value.toFixed(2)}`;
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value ?? '—');
+};
+
+export default function AdminPage() {
+  const [query, setQuery] = useState<CatalogQuery>(EMPTY_QUERY);
+  const [cards, setCards] = useState<CardDatabaseEntry[]>([]);
+  const [edits, setEdits] = useState<Record<string, CatalogEntryUpdate>>({});
+  const [overrideFor, setOverrideFor] = useState<string | null>(null);
+  const [override, setOverride] = useState<Record<keyof PriceOverride, string>>({ marketPrice: '', lowPrice: '', midPrice: '', highPrice: '' });
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [auditFor, setAuditFor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Takes the query rather than reading it, so the loaders stay the same
+  // across renders and the effect below runs once
+  const searchCards = useCallback(async (search: CatalogQuery) => {
+    setError(null);
+    try {
+      const params = new URLSearchParams(Object.entries(search).filter(([, value]) => value.trim()));
+      const response = await fetch(`/api/admin/cards?${params}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setCards(result.data);
+        setEdits({});
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error('Error searching catalog:', err);
+      setError('Failed to search the catalog.');
+    }
+  }, []);
+
+  const loadAudit = useCallback(async (targetId: string | null) => {
+    try {
+      const response = await fetch(`/api/admin/audit${targetId ? `?targetId=${encodeURIComponent(targetId)}` : ''}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setAudit(result.data);
+        setAuditFor(targetId);
+      }
+    } catch (err) {
+      console.error('Error loading audit trail:', err);
+    }
+  }, []);
+
+  // Initial load only; later searches are triggered by the form
+  useEffect(() => {
+    searchCards(EMPTY_QUERY);
+    loadAudit(null);
+  }, [searchCards, loadAudit]);
+
+  const updateEdit = (id: string, changes: CatalogEntryUpdate) => {
+    setEdits(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const toggleVariant = (card: CardDatabaseEntry, condition: CardCondition) => {
+    const current = edits[card.id]?.variants || card.variants;
+    const variants = current.includes(condition)
+      ? current.filter(variant => variant !== condition)
+      : [...current, condition];
+    updateEdit(card.id, { variants });
+  };
+
+  const saveCard = async (id: string, update: CatalogEntryUpdate) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/cards/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setCards(prev => prev.map(card => card.id === id ? result.data : card));
+      setEdits(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+      setOverrideFor(null);
+      await loadAudit(auditFor);
+    } catch (err) {
+      console.error('Error saving card:', err);
+      setError('Failed to save the card.');
+    }
+  };
+
+  const openOverride = (card: CardDatabaseEntry) => {
+    const prices: Pick<PriceData, keyof PriceOverride> = card.priceData || {
+      marketPrice: card.marketPrice,
+      lowPrice: card.marketPrice,
+      midPrice: card.marketPrice,
+      highPrice: card.marketPrice
+    };
+    setOverride({
+      marketPrice: String(prices.marketPrice),
+      lowPrice: String(prices.lowPrice),
+      midPrice: String(prices.midPrice),
+      highPrice: String(prices.highPrice)
+    });
+    setOverrideFor(overrideFor === card.id ? null : card.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Catalog &amp; Prices</h1>
+            <p className="text-gray-600">Edits take effect on the next offer we issue</p>
+          </div>
+          <Link href="/admin/intake" className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50">
+            Go to intake
+          </Link>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            searchCards(query);
+          }}
+          className="bg-white rounded-xl shadow-lg p-4 mb-6 flex flex-wrap gap-3"
+        >
+          <input
+            type="text"
+            placeholder="Name"
+            value={query.name}
+            onChange={(e) => setQuery({ ...query, name: e.target.value })}
+            className="flex-1 min-w-[12rem] p-2 border rounded-lg"
+          />
+          <input
+            type="text"
+            placeholder="Set or set code"
+            value={query.set}
+            onChange={(e) => setQuery({ ...query, set: e.target.value })}
+            className="w-48 p-2 border rounded-lg"
+          />
+          <input
+            type="text"
+            placeholder="Number"
+            value={query.number}
+            onChange={(e) => setQuery({ ...query, number: e.target.value })}
+            className="w-32 p-2 border rounded-lg"
+          />
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center">
+            <Search className="w-4 h-4 mr-2" />
+            Search
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3 bg-white rounded-xl shadow-lg p-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Card</th>
+                  <th className="py-2">Market price</th>
+                  <th className="py-2">Variants</th>
+                  <th className="py-2">Source</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {cards.map(card => {
+                  const edit = edits[card.id];
+                  const variants = edit?.variants || card.variants;
+                  return (
+                    <React.Fragment key={card.id}>
+                      <tr className="border-b align-middle">
+                        <td className="py-2">
+                          <p className="font-medium text-gray-800">{card.name}</p>
+                          <p className="text-xs text-gray-500">{card.set} ({card.setCode}) #{card.number} · {card.rarity}</p>
+                        </td>
+                        <td className="py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={edit?.marketPrice ?? card.marketPrice}
+                            onChange={(e) => updateEdit(card.id, { marketPrice: parseFloat(e.target.value) })}
+                            className="w-24 p-1 border rounded"
+                          />
+                        </td>
+                        <td className="py-2">
+                          <div className="flex gap-1">
+                            {CONDITIONS.map(({ condition, short }) => (
+                              <button
+                                key={condition}
+                                type="button"
+                                title={condition}
+                                onClick={() => toggleVariant(card, condition)}
+                                className={`px-2 py-0.5 rounded text-xs border ${variants.includes(condition) ? 'bg-blue-100 border-blue-300 text-blue-800' : 'text-gray-400'}`}
+                              >
+                                {short}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 text-xs text-gray-500">
+                          {card.priceData?.source || 'manual'}
+                          <br />
+                          {new Date(card.priceData?.lastUpdated || card.lastUpdated).toLocaleDateString()}
+                          {card.priceData?.source === 'manual' && (
+                            <button
+                              onClick={() => saveCard(card.id, { clearOverride: true })}
+                              className="block text-blue-600 hover:underline"
+                            >
+                              Use feed price
+                            </button>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex gap-2 justify-end">
+                            <button
+                              onClick={() => edit && saveCard(card.id, edit)}
+                              disabled={!edit}
+                              title="Save"
+                              className="p-1 text-blue-600 disabled:text-gray-300"
+                            >
+                              <Save className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => openOverride(card)} className="text-xs text-blue-600 hover:underline">
+                              Override
+                            </button>
+                            <button onClick={() => loadAudit(card.id)} title="History" className="p-1 text-gray-500">
+                              <History className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {overrideFor === card.id && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={5} className="py-3 px-2">
+                            <div className="flex flex-wrap items-end gap-3">
+                              {PRICE_FIELDS.map(({ field, label }) => (
+                                <label key={field} className="text-xs text-gray-600">
+                                  {label}
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={override[field]}
+                                    onChange={(e) => setOverride({ ...override, [field]: e.target.value })}
+                                    className="block w-24 p-1 border rounded text-sm"
+                                  />
+                                </label>
+                              ))}
+                              <button
+                                onClick={() => saveCard(card.id, {
+                                  priceOverride: {
+                                    marketPrice: parseFloat(override.marketPrice),
+                                    lowPrice: parseFloat(override.lowPrice),
+                                    midPrice: parseFloat(override.midPrice),
+                                    highPrice: parseFloat(override.highPrice)
+                                  }
+                                })}
+                                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+                              >
+                                Set manual prices
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+            {cards.length === 0 && <p className="text-sm text-gray-500 py-4">No cards match that search.</p>}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-lg p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h2 className="text-lg font-semibold">{auditFor ? `History: ${auditFor}` : 'Recent changes'}</h2>
+              {auditFor && (
+                <button onClick={() => loadAudit(null)} className="text-xs text-blue-600 hover:underline">All</button>
+              )}
+            </div>
+            {audit.length === 0 && <p className="text-sm text-gray-500">No changes yet.</p>}
+            <ul className="space-y-3">
+              {audit.map(entry => (
+                <li key={entry.id} className="text-xs border-b pb-2">
+                  <p className="text-gray-800">
+                    <span className="font-medium">{entry.user}</span> · {entry.action} · <span className="font-mono">{entry.targetId}</span>
+                  </p>
+                  <p className="text-gray-500">{new Date(entry.at).toLocaleString()}</p>
+                  {entry.changes.map((change, index) => (
+                    <p key={index} className="text-gray-600">
+                      {change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditLog } from '@/lib/audit';
+import { handleError } from '@/lib/errors';
+
+const DEFAULT_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    
+    const entries = await getAuditLog().list({
+      targetId: params.get('targetId') || undefined,
+      limit: Number(params.get('limit')) || DEFAULT_LIMIT
+    });
+    
+    return NextResponse.json({ success: true, data: entries });
+    
+  } catch (error) {
+    console.error('Error loading audit trail:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: 500 }
+    );
+  }
+}
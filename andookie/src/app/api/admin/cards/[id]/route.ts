@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyCatalogUpdate, getCardRepository } from '@/lib/catalog';
+import { getAuditLog } from '@/lib/audit';
+import { recordPrices } from '@/lib/priceHistory';
+import { requireAdminUser } from '@/lib/auth';
+import { handleError, isOperationalError } from '@/lib/errors';
+import { CatalogEntryUpdate } from '@/lib/types';
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = requireAdminUser(request);
+    const { id } = await params;
+    const body = await request.json() as CatalogEntryUpdate;
+    
+    const repository = getCardRepository();
+    const entry = await repository.findById(id);
+    
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Card not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { entry: updated, changes } = applyCatalogUpdate(entry, body);
+    
+    if (changes.length > 0) {
+      await repository.upsert(updated);
+      await recordPrices([updated]);
+      await getAuditLog().record({ user, action: 'card.update', targetType: 'card', targetId: id, changes });
+      console.log(`${user} updated ${id}: ${changes.map(change => change.field).join(', ')}`);
+    }
+    
+    return NextResponse.json({ success: true, data: updated });
+    
+  } catch (error) {
+    console.error('Error updating card:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
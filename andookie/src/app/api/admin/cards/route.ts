@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCardRepository } from '@/lib/catalog';
+import { handleError } from '@/lib/errors';
+
+const DEFAULT_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const limit = Number(params.get('limit')) || DEFAULT_LIMIT;
+    
+    const cards = await getCardRepository().search({
+      name: params.get('name') || undefined,
+      set: params.get('set') || undefined,
+      number: params.get('number') || undefined,
+      limit
+    });
+    
+    return NextResponse.json({ success: true, data: cards });
+    
+  } catch (error) {
+    console.error('Error searching catalog:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: 500 }
+    );
+  }
+}
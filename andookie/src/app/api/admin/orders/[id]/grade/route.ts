@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/lib/orders';
+import { gradeOrder } from '@/lib/intake';
+import { getAuditLog } from '@/lib/audit';
+import { requireAdminUser } from '@/lib/auth';
+import { handleError, isOperationalError, ValidationError } from '@/lib/errors';
+import { GradeOrderRequest } from '@/lib/types';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = requireAdminUser(request);
+    const { id } = await params;
+    const body = await request.json() as GradeOrderRequest;
+    
+    const repository = getOrderRepository();
+    const order = await repository.findById(id);
+    
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    
+    const graded = await gradeOrder(order, body.grades);
+    
+    if (!body.preview) {
+      // Grading reads the catalog, so it can't run inside the update; make
+      // sure no one changed the order in the meantime instead
+      await repository.update(id, current => {
+        if (!current || current.updatedAt.getTime() !== order.updatedAt.getTime()) {
+          throw new ValidationError('This order changed while it was being graded. Reload it and grade again.', 'status');
+        }
+        return graded;
+      });
+      await getAuditLog().record({
+        user,
+        action: 'order.grade',
+        targetType: 'order',
+        targetId: id,
+        changes: graded.cards
+          .filter(card => card.gradedCondition !== card.condition)
+          .map(card => ({ field: `${card.name} (${card.id})`, from: card.condition, to: card.gradedCondition }))
+      });
+      console.log(`Order ${id} graded: $${graded.totalOffer.toFixed(2)} -> $${(graded.adjustment?.adjustedTotal ?? graded.totalOffer).toFixed(2)}`);
+    }
+    
+    return NextResponse.json({ success: true, data: graded });
+    
+  } catch (error) {
+    console.error('Error grading order:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
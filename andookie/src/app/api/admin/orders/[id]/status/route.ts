@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/lib/orders';
+import { updateOrderStatus } from '@/lib/intake';
+import { getAuditLog } from '@/lib/audit';
+import { requireAdminUser } from '@/lib/auth';
+import { handleError, isOperationalError, OrderNotFoundError } from '@/lib/errors';
+import { OrderStatus } from '@/lib/types';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = requireAdminUser(request);
+    const { id } = await params;
+    const body = await request.json() as { status: OrderStatus; note?: string };
+    
+    let previousStatus: OrderStatus | undefined;
+    const updated = await getOrderRepository().update(id, order => {
+      if (!order) {
+        throw new OrderNotFoundError(id);
+      }
+      previousStatus = order.status;
+      return updateOrderStatus(order, body.status, body.note);
+    });
+    await getAuditLog().record({
+      user,
+      action: 'order.status',
+      targetType: 'order',
+      targetId: id,
+      changes: [{ field: 'status', from: previousStatus, to: updated.status }]
+    });
+    
+    return NextResponse.json({ success: true, data: updated });
+    
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/lib/orders';
+import { handleError } from '@/lib/errors';
+import { OrderStatus } from '@/lib/types';
+
+// Orders that still need something from staff
+const INTAKE_STATUSES: OrderStatus[] = ['label_issued', 'in_transit', 'received', 'graded', 'adjusted'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const statuses = status ? status.split(',') : INTAKE_STATUSES;
+    
+    const orders = (await getOrderRepository().list())
+      .filter(order => statuses.includes(order.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    
+    return NextResponse.json({ success: true, data: orders });
+    
+  } catch (error) {
+    console.error('Error listing orders:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: 500 }
+    );
+  }
+}
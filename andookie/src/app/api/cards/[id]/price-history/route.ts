@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCardRepository } from '@/lib/catalog';
+import { getPricingService } from '@/lib/pricing';
+import { getPriceHistoryRepository } from '@/lib/priceHistory';
+import { handleError, isCardCondition } from '@/lib/errors';
+import { PriceHistoryResponse } from '@/lib/types';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const condition = searchParams.get('condition') || 'Near Mint';
+    const days = Number(searchParams.get('days'));
+    
+    if (!isCardCondition(condition)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown condition "${condition}"` },
+        { status: 400 }
+      );
+    }
+    
+    const entry = await getCardRepository().findById(id);
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Card not found' },
+        { status: 404 }
+      );
+    }
+    
+    // History is kept in Near Mint terms; other conditions scale like offers do
+    const multiplier = (await getPricingService()).getRules().conditionMultipliers[condition];
+    const since = days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+    const history = await getPriceHistoryRepository().findById(id);
+    
+    const data: PriceHistoryResponse = {
+      cardId: id,
+      condition,
+      points: (history?.points || [])
+        .filter(point => point.at.getTime() >= since)
+        .map(point => ({ ...point, marketPrice: Math.round(point.marketPrice * multiplier * 100) / 100 }))
+    };
+    
+    return NextResponse.json({ success: true, data });
+    
+  } catch (error) {
+    console.error('Error loading price history:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: 500 }
+    );
+  }
+}
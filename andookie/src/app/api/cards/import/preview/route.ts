@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkUploadSize, previewImport } from '@/lib/bulkImport';
+import { handleError, isOperationalError } from '@/lib/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    checkUploadSize(request);
+    const formData = await request.formData();
+    const file = formData.get('file');
+    
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+    
+    const data = await previewImport(file);
+    
+    return NextResponse.json({ success: true, data });
+    
+  } catch (error) {
+    console.error('Error previewing import:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
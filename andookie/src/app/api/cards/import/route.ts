@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkUploadSize, importCardRows, isColumnMapping } from '@/lib/bulkImport';
+import { createLineMatchContext } from '@/lib/cardLines';
+import { handleError, isOperationalError } from '@/lib/errors';
+import { ImportPreviewResponse } from '@/lib/types';
+
+const DELIMITERS: ImportPreviewResponse['delimiter'][] = [',', '\t', ';'];
+
+export async function POST(request: NextRequest) {
+  try {
+    checkUploadSize(request);
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const delimiter = formData.get('delimiter') as ImportPreviewResponse['delimiter'] | null;
+    const format = formData.get('format');
+    
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+    
+    if (!delimiter || !DELIMITERS.includes(delimiter)) {
+      return NextResponse.json(
+        { success: false, error: 'Unsupported delimiter' },
+        { status: 400 }
+      );
+    }
+    
+    let mapping: unknown;
+    try {
+      mapping = JSON.parse(String(formData.get('mapping') || '{}'));
+    } catch {
+      mapping = null;
+    }
+    
+    if (!isColumnMapping(mapping)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid column mapping' },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`Importing ${file.name} (${file.size} bytes)...`);
+    
+    const data = await importCardRows(
+      file,
+      delimiter,
+      mapping,
+      await createLineMatchContext(),
+      typeof format === 'string' && format ? format : undefined
+    );
+    
+    console.log(`Imported ${data.matched} of ${data.totalLines} rows from ${file.name}`);
+    
+    return NextResponse.json({ success: true, data });
+    
+  } catch (error) {
+    console.error('Error importing card list:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
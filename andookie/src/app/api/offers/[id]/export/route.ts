@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOfferRepository } from '@/lib/offers';
+import { EXPORT_FORMATS, ExportFormat, exportOffer } from '@/lib/exports';
+import { handleError } from '@/lib/errors';
+
+// Download an offer as CSV (default) or JSON
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const format = (request.nextUrl.searchParams.get('format') || 'csv') as ExportFormat;
+    
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported format (use ${EXPORT_FORMATS.join(' or ')})` },
+        { status: 400 }
+      );
+    }
+    
+    const offer = await getOfferRepository().findById(id);
+    
+    if (!offer) {
+      return NextResponse.json(
+        { success: false, error: 'Offer not found' },
+        { status: 404 }
+      );
+    }
+    
+    const file = exportOffer(offer, format);
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error exporting offer:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: 500 }
+    );
+  }
+}
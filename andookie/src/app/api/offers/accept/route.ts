@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { claimOffer, releaseOffer } from '@/lib/offers';
+import { generateOrderId, generateTrackingNumber, getOrderRepository } from '@/lib/orders';
+import { createOrderAccessToken } from '@/lib/orderAccess';
+import { handleError, isOperationalError, OfferExpiredError, validateCustomerInfo } from '@/lib/errors';
+import { AcceptOfferRequest, AcceptOfferResponse, Order } from '@/lib/types';
+
+const PAYMENT_PROCESSING_TIME = 'Within 24 hours of receiving your cards';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as AcceptOfferRequest;
+    
+    validateCustomerInfo(body.customerInfo);
+    
+    // The order pays out the stored offer snapshot, never client-side prices.
+    // Claiming it marks it accepted, so a second accept can't make another order.
+    const orderId = generateOrderId();
+    const offer = await claimOffer(body.offerId, body.totalOffer, orderId);
+    const { cards, totalOffer } = offer;
+    
+    const now = new Date();
+    const order: Order = {
+      id: orderId,
+      offerId: offer.id,
+      status: 'label_issued',
+      history: [
+        { status: 'offered', at: offer.issuedAt },
+        { status: 'accepted', at: now },
+        { status: 'label_issued', at: now }
+      ],
+      cards: cards.map(card => ({ ...card, outcome: 'pending' })),
+      totalOffer,
+      customerInfo: {
+        email: body.customerInfo.email.trim(),
+        name: body.customerInfo.name.trim(),
+        address: {
+          street: body.customerInfo.address.street.trim(),
+          city: body.customerInfo.address.city.trim(),
+          state: body.customerInfo.address.state.trim(),
+          zipCode: body.customerInfo.address.zipCode.trim()
+        }
+      },
+      shippingLabel: {
+        trackingNumber: generateTrackingNumber(),
+        labelUrl: `/api/orders/${orderId}/label`
+      },
+      estimatedPayment: {
+        amount: totalOffer,
+        processingTime: PAYMENT_PROCESSING_TIME
+      },
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    try {
+      await getOrderRepository().save(order);
+    } catch (error) {
+      await releaseOffer(offer.id, orderId);
+      throw error;
+    }
+    
+    console.log(`Order ${orderId} accepted: ${cards.length} cards for $${totalOffer.toFixed(2)}`);
+    
+    const data: AcceptOfferResponse = {
+      orderId,
+      accessToken: createOrderAccessToken(orderId),
+      shippingLabel: order.shippingLabel,
+      estimatedPayment: order.estimatedPayment
+    };
+    
+    return NextResponse.json({ success: true, data });
+    
+  } catch (error) {
+    // Hand back the re-quote so the seller can accept the updated numbers
+    if (error instanceof OfferExpiredError) {
+      return NextResponse.json(
+        { success: false, error: error.message, data: { offer: error.requote } },
+        { status: error.statusCode }
+      );
+    }
+    
+    console.error('Error accepting offer:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
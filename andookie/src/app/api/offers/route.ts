@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issueOffer } from '@/lib/offers';
+import { handleError, isOperationalError } from '@/lib/errors';
+import { CreateOfferRequest } from '@/lib/types';
+
+// Issue a priced offer for the cards the seller confirmed
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as CreateOfferRequest;
+    const offer = await issueOffer(body.cards);
+    
+    console.log(`Issued offer ${offer.id}: ${offer.cards.length} cards for $${offer.totalOffer.toFixed(2)}`);
+    
+    return NextResponse.json({ success: true, data: offer });
+    
+  } catch (error) {
+    console.error('Error issuing offer:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
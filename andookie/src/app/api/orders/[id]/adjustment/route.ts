@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository, toPublicOrder } from '@/lib/orders';
+import { decideAdjustment } from '@/lib/intake';
+import { requireOrderAccess } from '@/lib/orderAccess';
+import { handleError, isOperationalError, OrderNotFoundError } from '@/lib/errors';
+import { AdjustmentDecisionRequest } from '@/lib/types';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    // Only the seller (or staff) may take the adjusted payout or the cards back
+    requireOrderAccess(request, id);
+    const body = await request.json() as AdjustmentDecisionRequest;
+    
+    const updated = await getOrderRepository().update(id, order => {
+      if (!order) {
+        throw new OrderNotFoundError(id);
+      }
+      return decideAdjustment(order, body.decision);
+    });
+    
+    console.log(`Order ${id}: seller chose to ${body.decision} the adjusted offer`);
+    
+    return NextResponse.json({ success: true, data: toPublicOrder(updated) });
+    
+  } catch (error) {
+    console.error('Error recording adjustment decision:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository, toPublicOrder } from '@/lib/orders';
+import { EXPORT_FORMATS, ExportFormat, exportOrder } from '@/lib/exports';
+import { requireOrderAccess } from '@/lib/orderAccess';
+import { handleError, isOperationalError } from '@/lib/errors';
+
+// Download an order as CSV (default) or JSON
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    requireOrderAccess(request, id);
+    const format = (request.nextUrl.searchParams.get('format') || 'csv') as ExportFormat;
+    
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported format (use ${EXPORT_FORMATS.join(' or ')})` },
+        { status: 400 }
+      );
+    }
+    
+    const order = await getOrderRepository().findById(id);
+    
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    
+    const file = exportOrder(toPublicOrder(order), format);
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error exporting order:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository } from '@/lib/orders';
+import { requireOrderAccess } from '@/lib/orderAccess';
+import { handleError, isOperationalError } from '@/lib/errors';
+import { escapeHtml } from '@/lib/utils';
+
+// Printable stand-in shipping label until a carrier API is integrated.
+// It carries the seller's full address, so only they and staff can open it.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    requireOrderAccess(request, id);
+    
+    const order = await getOrderRepository().findById(id);
+    
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { name, address } = order.customerInfo;
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Shipping label ${escapeHtml(order.id)}</title>
+  <style>
+    body { font-family: monospace; }
+    .label { border: 2px solid #000; padding: 24px; width: 4in; }
+    .tracking { font-size: 20px; font-weight: bold; letter-spacing: 2px; }
+  </style>
+</head>
+<body>
+  <div class="label">
+    <p><strong>FROM:</strong><br>
+      ${escapeHtml(name)}<br>
+      ${escapeHtml(address.street)}<br>
+      ${escapeHtml(address.city)}, ${escapeHtml(address.state)} ${escapeHtml(address.zipCode)}
+    </p>
+    <p><strong>TO:</strong><br>
+      Andookie Card Intake<br>
+      Order ${escapeHtml(order.id)}
+    </p>
+    <p class="tracking">${escapeHtml(order.shippingLabel.trackingNumber)}</p>
+    <p>PREPAID &middot; SAMPLE LABEL &middot; NOT VALID FOR POSTAGE</p>
+  </div>
+</body>
+</html>`;
+    
+    return new Response(html, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+    
+  } catch (error) {
+    console.error('Error rendering shipping label:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository, toPublicOrder } from '@/lib/orders';
+import { requireOrderAccess } from '@/lib/orderAccess';
+import { renderPackingSlip } from '@/lib/exports';
+import { handleError, isOperationalError } from '@/lib/errors';
+
+// Printable slip for the seller to pack with their cards
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    requireOrderAccess(request, id);
+    
+    const order = await getOrderRepository().findById(id);
+    
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    
+    return new Response(renderPackingSlip(toPublicOrder(order)), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+    
+  } catch (error) {
+    console.error('Error rendering packing slip:', error);
+    const details = handleError(error);
+    return NextResponse.json(
+      { success: false, error: details.message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderRepository, toPublicOrder } from '@/lib/orders';
+import { requireOrderAccess } from '@/lib/orderAccess';
+import { handleError, isOperationalError } from '@/lib/errors';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    requireOrderAccess(request, id);
+    const order = await getOrderRepository().findById(id);
+    
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, data: toPublicOrder(order) });
+    
+  } catch (error) {
+    console.error('Error loading order:', error);
+    return NextResponse.json(
+      { success: false, error: handleError(error).message },
+      { status: isOperationalError(error) ? error.statusCode : 500 }
+    );
+  }
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { CheckCircle, Circle, Package } from 'lucide-react';
+import { AdjustmentDecisionRequest, PublicOrder } from '@/lib/types';
+import {
+  CARD_OUTCOME_LABELS,
+  ORDER_STATUS_DESCRIPTIONS,
+  ORDER_STATUS_FLOW,
+  ORDER_STATUS_LABELS
+} from '@/lib/orderStatus';
+import { ORDER_TOKEN_PARAM, withOrderAccessToken } from '@/lib/utils';
+
+export default function OrderStatusPage() {
+  const { id } = useParams<{ id: string }>();
+  // The access code from the link we gave the seller
+  const token = useSearchParams().get(ORDER_TOKEN_PARAM) || '';
+  const [order, setOrder] = useState<PublicOrder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeciding, setIsDeciding] = useState(false);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      try {
+        const response = await fetch(withOrderAccessToken(`/api/orders/${encodeURIComponent(id)}`, token));
+        const result = await response.json();
+
+        if (result.success) {
+          setOrder(result.data);
+        } else {
+          setError(result.error);
+        }
+      } catch (err) {
+        console.error('Error loading order:', err);
+        setError('Failed to load your order. Please try again.');
+      }
+    };
+
+    loadOrder();
+  }, [id, token]);
+
+  const decide = async (decision: AdjustmentDecisionRequest['decision']) => {
+    if (decision === 'return' && !confirm('Send all of your cards back instead of accepting the adjusted offer?')) {
+      return;
+    }
+
+    setIsDeciding(true);
+    setDecisionError(null);
+
+    try {
+      const response = await fetch(withOrderAccessToken(`/api/orders/${encodeURIComponent(id)}/adjustment`, token), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setOrder(result.data);
+      } else {
+        setDecisionError(result.error);
+      }
+    } catch (err) {
+      console.error('Error sending decision:', err);
+      setDecisionError('Failed to send your answer. Please try again.');
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+        <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-lg p-8 text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">We couldn&apos;t find that order</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const reached = new Set(order.history.map(change => change.status));
+  // Orders that end up adjusted or returned leave the usual path after grading
+  const flow = ORDER_STATUS_FLOW.includes(order.status) ? ORDER_STATUS_FLOW : [...ORDER_STATUS_FLOW.slice(0, -1), order.status];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <p className="text-sm text-gray-500">Order</p>
+              <h1 className="text-2xl font-bold text-gray-800 font-mono">{order.id}</h1>
+              <p className="text-sm text-gray-500">Placed {new Date(order.createdAt).toLocaleDateString()} by {order.customer.name}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-500">Payment</p>
+              <p className="text-3xl font-bold text-green-600">${order.estimatedPayment.amount.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">{order.estimatedPayment.processingTime}</p>
+            </div>
+          </div>
+
+          <div className="bg-blue-50 rounded-lg p-4 mb-6">
+            <div className="flex items-center">
+              <Package className="w-6 h-6 text-blue-600 mr-3" />
+              <div>
+                <p className="font-semibold text-gray-800">{ORDER_STATUS_LABELS[order.status]}</p>
+                <p className="text-sm text-gray-600">{ORDER_STATUS_DESCRIPTIONS[order.status]}</p>
+              </div>
+            </div>
+          </div>
+
+          <ol className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {flow.map(status => (
+              <li key={status} className="flex flex-col items-center text-center">
+                {reached.has(status)
+                  ? <CheckCircle className="w-6 h-6 text-green-500 mb-1" />
+                  : <Circle className="w-6 h-6 text-gray-300 mb-1" />}
+                <span className={`text-xs ${reached.has(status) ? 'text-gray-800 font-medium' : 'text-gray-400'}`}>
+                  {ORDER_STATUS_LABELS[status]}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          <p className="text-sm text-gray-600 mt-6">
+            Tracking number: <span className="font-mono text-gray-800">{order.shippingLabel.trackingNumber}</span>
+            {' · '}
+            <a href={withOrderAccessToken(order.shippingLabel.labelUrl, token)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              Print shipping label
+            </a>
+            {' · '}
+            <a href={withOrderAccessToken(`/api/orders/${order.id}/packing-slip`, token)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              Print packing slip
+            </a>
+          </p>
+          <p className="text-sm text-gray-600 mt-2">
+            Download your order:{' '}
+            <a href={withOrderAccessToken(`/api/orders/${order.id}/export?format=csv`, token)} className="text-blue-600 hover:underline">CSV</a>
+            {' · '}
+            <a href={withOrderAccessToken(`/api/orders/${order.id}/export?format=json`, token)} className="text-blue-600 hover:underline">JSON</a>
+          </p>
+        </div>
+
+        {order.adjustment && (
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-xl font-semibold mb-2">Adjusted Offer</h2>
+            <p className="text-gray-600 mb-4">
+              Some of your cards arrived in a different condition than listed, so we re-priced them at the price we locked in with your offer.
+            </p>
+            <div className="grid grid-cols-3 gap-4 text-center mb-4">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-sm text-gray-500">Original offer</p>
+                <p className="text-xl font-bold text-gray-800">${order.adjustment.originalTotal.toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-sm text-gray-500">Adjusted offer</p>
+                <p className="text-xl font-bold text-green-600">${order.adjustment.adjustedTotal.toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-sm text-gray-500">Difference</p>
+                <p className={`text-xl font-bold ${order.adjustment.difference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {order.adjustment.difference < 0 ? '-' : '+'}${Math.abs(order.adjustment.difference).toFixed(2)}
+                </p>
+              </div>
+            </div>
+
+            {order.adjustment.decision === 'pending' ? (
+              <>
+                {decisionError && <p className="text-sm text-red-600 mb-3">{decisionError}</p>}
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => decide('return')}
+                    disabled={isDeciding}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Return my cards
+                  </button>
+                  <button
+                    onClick={() => decide('accept')}
+                    disabled={isDeciding}
+                    className="flex-1 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                  >
+                    Accept ${order.adjustment.adjustedTotal.toFixed(2)}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                {order.adjustment.decision === 'accepted' ? 'You accepted the adjusted offer.' : 'You asked for your cards back.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Your Cards</h2>
+          <div className="grid gap-3">
+            {order.cards.map(card => (
+              <div key={card.id} className="border rounded-lg p-4 flex justify-between items-center">
+                <div>
+                  <h3 className="font-semibold text-gray-800">
+                    {card.name}
+                    {card.quantity > 1 && <span className="ml-2 text-sm font-medium text-blue-600">×{card.quantity}</span>}
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    {card.set} #{card.number} · {card.condition}
+                    {card.gradedCondition && card.gradedCondition !== card.condition && ` → graded ${card.gradedCondition}`}
+                  </p>
+                  {card.gradeNote && <p className="text-xs text-gray-500">{card.gradeNote}</p>}
+                </div>
+                <div className="text-right">
+                  {card.adjustedOffer !== undefined && card.adjustedOffer !== card.ourOffer ? (
+                    <p className="font-semibold">
+                      <span className="text-gray-400 line-through mr-2">${(card.ourOffer * card.quantity).toFixed(2)}</span>
+                      <span className="text-green-600">${(card.adjustedOffer * card.quantity).toFixed(2)}</span>
+                    </p>
+                  ) : (
+                    <p className="font-semibold text-green-600">${(card.ourOffer * card.quantity).toFixed(2)}</p>
+                  )}
+                  <p className="text-xs text-gray-500">{CARD_OUTCOME_LABELS[card.outcome]}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">History</h2>
+          <ul className="space-y-3">
+            {[...order.history].reverse().map((change, index) => (
+              <li key={index} className="flex justify-between text-sm">
+                <div>
+                  <p className="font-medium text-gray-800">{ORDER_STATUS_LABELS[change.status]}</p>
+                  {change.note && <p className="text-gray-500">{change.note}</p>}
+                </div>
+                <span className="text-gray-500">{new Date(change.at).toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
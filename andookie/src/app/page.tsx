@@ -1,65 +1,108 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Camera, Upload, DollarSign, Package, CheckCircle, X } from 'lucide-react';
-
-interface UploadedImage {
-  id: number;
-  file: File;
-  url: string;
-  name: string;
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Camera, Upload, Package, CheckCircle, X, Clock, FileSpreadsheet } from 'lucide-react';
+import {
+  AcceptOfferResponse,
+  BoundingBox,
+  BulkImportResponse,
+  Card,
+  ColumnMapping,
+  CustomerInfoForm,
+  ImportField,
+  ImportPreviewResponse,
+  Offer,
+  ProcessTextResponse,
+  TextLineMatch,
+  UploadedImage
+} from '@/lib/types';
+import { validateEmail, validateZipCode } from '@/lib/errors';
+import { getCardTotals, getOfferBreakdown, withOrderAccessToken } from '@/lib/utils';
+
+const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'name', label: 'Card name' },
+  { field: 'set', label: 'Set' },
+  { field: 'setCode', label: 'Set code' },
+  { field: 'number', label: 'Card number' },
+  { field: 'condition', label: 'Condition' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'language', label: 'Language' },
+  { field: 'foil', label: 'Foil' }
+];
+
+// Offer thumbnails are w-16 h-20
+const THUMBNAIL_SIZE = { width: 64, height: 80 };
+
+// The part of an uploaded photo a card was found in, scaled to fit a thumbnail
+function CardCrop({ src, region }: { src: string; region: BoundingBox }) {
+  const scale = Math.min(THUMBNAIL_SIZE.width / region.width, THUMBNAIL_SIZE.height / region.height);
+  
+  return (
+    <div
+      className="relative overflow-hidden rounded"
+      style={{ width: region.width * scale, height: region.height * scale }}
+    >
+      {/* The crop is placed in the photo's own pixels, so this needs the image
+          at its natural size, which next/image can't render without knowing it */}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={src}
+        alt=""
+        className="absolute top-0 left-0"
+        style={{
+          maxWidth: 'none',
+          transformOrigin: '0 0',
+          transform: `scale(${scale}) translate(${-region.x}px, ${-region.y}px)`
+        }}
+      />
+    </div>
+  );
 }
 
-interface Card {
-  id: number;
-  name: string;
-  set: string;
-  number: string;
-  condition: string;
-  marketPrice: number;
-  ourOffer: number;
-  image?: string;
+// The server prices cards afresh, in the order they were sent, and keeps
+// nothing about the photos; put back where each card was found
+function withPhotoCrops(pricedCards: Card[], sentCards: Card[]): Card[] {
+  return pricedCards.map((card, index) => ({
+    ...card,
+    imageIndex: sentCards[index]?.imageIndex,
+    imageRegion: sentCards[index]?.imageRegion
+  }));
 }
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<'upload' | 'text'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'text' | 'sheet'>('upload');
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [textInput, setTextInput] = useState('');
+  const [sheetFile, setSheetFile] = useState<File | null>(null);
+  const [sheetPreview, setSheetPreview] = useState<ImportPreviewResponse | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
   const [identifiedCards, setIdentifiedCards] = useState<Card[]>([]);
   const [showOffer, setShowOffer] = useState(false);
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [ambiguousLines, setAmbiguousLines] = useState<TextLineMatch[]>([]);
+  const [printingChoices, setPrintingChoices] = useState<Record<number, string>>({});
+  const [showCheckout, setShowCheckout] = useState(false);
+  const [customerInfo, setCustomerInfo] = useState<CustomerInfoForm>({
+    email: '',
+    name: '',
+    street: '',
+    city: '',
+    state: '',
+    zipCode: ''
+  });
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [order, setOrder] = useState<AcceptOfferResponse | null>(null);
   const [offerAccepted, setOfferAccepted] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
 
-  // Mock card data for demonstration
-  const mockCards: Card[] = [
-    {
-      id: 1,
-      name: 'Charizard',
-      set: 'Base Set',
-      number: '4/102',
-      condition: 'Near Mint',
-      marketPrice: 450.00,
-      ourOffer: 315.00,
-    },
-    {
-      id: 2,
-      name: 'Pikachu VMAX',
-      set: 'Vivid Voltage',
-      number: '044/185',
-      condition: 'Mint',
-      marketPrice: 85.00,
-      ourOffer: 59.50,
-    },
-    {
-      id: 3,
-      name: 'Blastoise',
-      set: 'Base Set',
-      number: '2/102',
-      condition: 'Lightly Played',
-      marketPrice: 180.00,
-      ourOffer: 108.00,
-    }
-  ];
+  // Tick once a second while an offer is on screen so the price-lock countdown stays live
+  useEffect(() => {
+    if (!offer || offerAccepted) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [offer, offerAccepted]);
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
@@ -76,6 +119,37 @@ export default function Home() {
     setUploadedImages(uploadedImages.filter(img => img.id !== id));
   };
 
+  // Have the server price the confirmed cards and lock them into an offer
+  const requestOffer = async (cards: Card[]) => {
+    if (cards.length === 0) {
+      alert('We couldn\'t identify any cards to make an offer on.');
+      return;
+    }
+    
+    try {
+      const response = await fetch('/api/offers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ cards })
+      });
+
+      const result = await response.json();
+      
+      if (result.success) {
+        setOffer(result.data);
+        setIdentifiedCards(withPhotoCrops(result.data.cards, cards));
+        setShowOffer(true);
+      } else {
+        alert('Error creating offer: ' + result.error);
+      }
+    } catch (error) {
+      console.error('Error creating offer:', error);
+      alert('Failed to create your offer. Please try again.');
+    }
+  };
+
   const processCards = async () => {
     setLoading(true);
     try {
@@ -92,8 +166,10 @@ export default function Home() {
       const result = await response.json();
       
       if (result.success) {
-        setIdentifiedCards(result.data.cards);
-        setShowOffer(true);
+        await requestOffer(result.data.cards);
+        if (result.data.failedImages.length > 0) {
+          alert(`Note: we couldn't identify cards in ${result.data.failedImages.length} of ${result.data.totalImages} images.`);
+        }
       } else {
         alert('Error processing images: ' + result.error);
       }
@@ -104,6 +180,93 @@ export default function Home() {
     setLoading(false);
   };
 
+  const handleSheetUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    setSheetFile(file);
+    setSheetPreview(null);
+    
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      
+      const response = await fetch('/api/cards/import/preview', {
+        method: 'POST',
+        body: formData
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        setSheetPreview(result.data);
+        setColumnMapping(result.data.mapping);
+      } else {
+        alert('Error reading spreadsheet: ' + result.error);
+        setSheetFile(null);
+      }
+    } catch (error) {
+      console.error('Error previewing spreadsheet:', error);
+      alert('Failed to read your spreadsheet. Please try again.');
+      setSheetFile(null);
+    }
+  };
+
+  const processSpreadsheet = async () => {
+    if (!sheetFile || !sheetPreview) return;
+    
+    setLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', sheetFile);
+      formData.append('delimiter', sheetPreview.delimiter);
+      formData.append('mapping', JSON.stringify(columnMapping));
+      if (sheetPreview.format) {
+        formData.append('format', sheetPreview.format.id);
+      }
+      
+      const response = await fetch('/api/cards/import', {
+        method: 'POST',
+        body: formData
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        const data: BulkImportResponse = result.data;
+        await handleMatchedList(data);
+        
+        if (data.rowErrors.length > 0) {
+          const examples = data.rowErrors.slice(0, 5).map(error => `Row ${error.row}: ${error.error}`).join('\n');
+          alert(`Note: ${data.rowErrors.length} of ${data.totalLines} rows couldn't be imported.\n\n${examples}${data.rowErrors.length > 5 ? '\n…' : ''}`);
+        }
+      } else {
+        alert('Error importing spreadsheet: ' + result.error);
+      }
+    } catch (error) {
+      console.error('Error importing spreadsheet:', error);
+      alert('Failed to import your spreadsheet. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  // Ask about lines that could be more than one printing, otherwise go straight to an offer
+  const handleMatchedList = async (data: ProcessTextResponse) => {
+    setIdentifiedCards(data.cards);
+    
+    const ambiguous = data.lineMatches.filter(match => match.ambiguous);
+    if (ambiguous.length > 0) {
+      // Preselect the best match for each line; the seller confirms or changes it
+      setAmbiguousLines(ambiguous);
+      setPrintingChoices(Object.fromEntries(
+        ambiguous.map(match => [match.cardId, match.candidates[0].entry.id])
+      ));
+    } else {
+      await requestOffer(data.cards);
+    }
+  };
+
   const processTextInput = async () => {
     if (!textInput.trim()) return;
     
@@ -120,8 +283,8 @@ export default function Home() {
       const result = await response.json();
       
       if (result.success) {
-        setIdentifiedCards(result.data.cards);
-        setShowOffer(true);
+        await handleMatchedList(result.data);
+        
         if (result.data.unmatchedLines > 0) {
           alert(`Note: ${result.data.unmatchedLines} lines couldn't be matched to cards in our database.`);
         }
@@ -135,15 +298,104 @@ export default function Home() {
     setLoading(false);
   };
 
-  const acceptOffer = () => {
-    setOfferAccepted(true);
-    // Here you would integrate with shipping API
+  const confirmPrintings = async () => {
+    const confirmedCards = identifiedCards.map(card => {
+      const lineMatch = ambiguousLines.find(match => match.cardId === card.id);
+      const chosen = lineMatch?.candidates.find(candidate => candidate.entry.id === printingChoices[card.id]);
+      if (!chosen) return card;
+      
+      return {
+        ...card,
+        name: chosen.entry.name,
+        set: chosen.entry.set,
+        number: chosen.entry.number,
+        marketPrice: chosen.marketPrice,
+        ourOffer: chosen.ourOffer,
+        offerBracket: chosen.offerBracket,
+        offerPercentage: chosen.offerPercentage,
+        confidence: chosen.score,
+        catalogId: chosen.entry.id,
+        matchStrategy: chosen.strategy
+      };
+    });
+    
+    setLoading(true);
+    setAmbiguousLines([]);
+    await requestOffer(confirmedCards);
+    setLoading(false);
   };
 
-  const totalOffer = identifiedCards.reduce((sum, card) => sum + card.ourOffer, 0);
-  const totalMarketValue = identifiedCards.reduce((sum, card) => sum + card.marketPrice, 0);
+  const acceptOffer = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCheckoutError(null);
+    
+    if (!validateEmail(customerInfo.email.trim())) {
+      setCheckoutError('Please enter a valid email address.');
+      return;
+    }
+    if (!validateZipCode(customerInfo.zipCode.trim())) {
+      setCheckoutError('Please enter a valid ZIP code.');
+      return;
+    }
+    
+    setLoading(true);
+    try {
+      const response = await fetch('/api/offers/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          offerId: offer?.id,
+          totalOffer,
+          customerInfo: {
+            email: customerInfo.email,
+            name: customerInfo.name,
+            address: {
+              street: customerInfo.street,
+              city: customerInfo.city,
+              state: customerInfo.state,
+              zipCode: customerInfo.zipCode
+            }
+          }
+        })
+      });
 
-  if (offerAccepted) {
+      const result = await response.json();
+      
+      if (result.success) {
+        setOrder(result.data);
+        setOfferAccepted(true);
+      } else if (result.data?.offer) {
+        // The offer expired and prices moved: show the re-quote before going any further
+        setOffer(result.data.offer);
+        setIdentifiedCards(withPhotoCrops(result.data.offer.cards, identifiedCards));
+        setShowCheckout(false);
+        alert(result.error);
+      } else {
+        setCheckoutError(result.error);
+      }
+    } catch (error) {
+      console.error('Error accepting offer:', error);
+      setCheckoutError('Failed to accept offer. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  const { totalCards, totalOffer, totalMarketValue } = getCardTotals(identifiedCards);
+  const offerBreakdown = getOfferBreakdown(identifiedCards);
+
+  const formatTimeLeft = (milliseconds: number): string => {
+    const totalMinutes = Math.floor(milliseconds / 60000);
+    const days = Math.floor(totalMinutes / (60 * 24));
+    const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+    const minutes = totalMinutes % 60;
+    const seconds = Math.floor((milliseconds % 60000) / 1000);
+    return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m ${seconds}s`;
+  };
+  const offerTimeLeft = offer ? new Date(offer.expiresAt).getTime() - now : 0;
+
+  if (offerAccepted && order) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
         <div className="max-w-2xl mx-auto">
@@ -151,14 +403,41 @@ export default function Home() {
             <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
             <h1 className="text-3xl font-bold text-gray-800 mb-4">Offer Accepted!</h1>
             <p className="text-lg text-gray-600 mb-6">
-              Your offer of <span className="font-bold text-green-600">${totalOffer.toFixed(2)}</span> has been accepted.
+              Your offer of <span className="font-bold text-green-600">${order.estimatedPayment.amount.toFixed(2)}</span> has been accepted.
             </p>
+            <div className="bg-gray-50 rounded-lg p-4 mb-6 text-left text-sm text-gray-600 space-y-1">
+              <p>Order number: <span className="font-mono font-semibold text-gray-800">{order.orderId}</span></p>
+              <p>Tracking number: <span className="font-mono text-gray-800">{order.shippingLabel.trackingNumber}</span></p>
+              <p>Payment: {order.estimatedPayment.processingTime}</p>
+              <a
+                href={withOrderAccessToken(order.shippingLabel.labelUrl, order.accessToken)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block mt-2 text-blue-600 hover:underline"
+              >
+                Print shipping label
+              </a>
+              <a
+                href={withOrderAccessToken(`/api/orders/${order.orderId}/packing-slip`, order.accessToken)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block mt-2 ml-4 text-blue-600 hover:underline"
+              >
+                Print packing slip
+              </a>
+              <a
+                href={withOrderAccessToken(`/orders/${order.orderId}`, order.accessToken)}
+                className="inline-block mt-2 ml-4 text-blue-600 hover:underline"
+              >
+                Track your order
+              </a>
+            </div>
             <div className="bg-blue-50 rounded-lg p-6 mb-6">
               <Package className="w-8 h-8 text-blue-600 mx-auto mb-2" />
               <h3 className="font-semibold text-gray-800 mb-2">Next Steps:</h3>
               <ul className="text-left text-gray-600 space-y-2">
                 <li>✓ Prepaid shipping label sent to your email</li>
-                <li>✓ Pack your cards securely using our instructions</li>
+                <li>✓ Pack your cards securely with the packing slip in the box</li>
                 <li>✓ Drop off at any UPS location</li>
                 <li>✓ Payment processed within 24 hours of receipt</li>
               </ul>
@@ -175,40 +454,222 @@ export default function Home() {
     );
   }
 
+  if (showCheckout) {
+    const updateField = (field: keyof CustomerInfoForm) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      setCustomerInfo({ ...customerInfo, [field]: event.target.value });
+    };
+    
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+        <div className="max-w-2xl mx-auto">
+          <form onSubmit={acceptOffer} className="bg-white rounded-xl shadow-lg p-6">
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">Where should we send your label?</h1>
+            <p className="text-gray-600 mb-6">
+              You&apos;re selling {totalCards} {totalCards === 1 ? 'card' : 'cards'} for <span className="font-semibold text-green-600">${totalOffer.toFixed(2)}</span>.
+            </p>
+
+            <div className="grid gap-4 mb-6">
+              <input required placeholder="Full name" value={customerInfo.name} onChange={updateField('name')}
+                className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+              <input required type="email" placeholder="Email" value={customerInfo.email} onChange={updateField('email')}
+                className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+              <input required placeholder="Street address" value={customerInfo.street} onChange={updateField('street')}
+                className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+              <div className="grid grid-cols-3 gap-4">
+                <input required placeholder="City" value={customerInfo.city} onChange={updateField('city')}
+                  className="border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+                <input required placeholder="State" value={customerInfo.state} onChange={updateField('state')}
+                  className="border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+                <input required placeholder="ZIP code" value={customerInfo.zipCode} onChange={updateField('zipCode')}
+                  className="border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-transparent" />
+              </div>
+            </div>
+
+            {checkoutError && (
+              <p className="mb-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">{checkoutError}</p>
+            )}
+
+            <div className="flex space-x-4">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 bg-green-600 text-white py-3 px-6 rounded-lg hover:bg-green-700 transition-colors font-semibold disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Submitting...' : `Confirm Sale - $${totalOffer.toFixed(2)}`}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowCheckout(false)}
+                className="flex-1 bg-gray-300 text-gray-700 py-3 px-6 rounded-lg hover:bg-gray-400 transition-colors"
+              >
+                Back to Offer
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  if (ambiguousLines.length > 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">Which card did you mean?</h1>
+            <p className="text-gray-600 mb-6">
+              Some lines match more than one printing. Pick the right one so we can price it correctly.
+            </p>
+
+            <div className="grid gap-4 mb-6">
+              {ambiguousLines.map(match => (
+                <div key={match.cardId} className="border rounded-lg p-4">
+                  <p className="text-sm text-gray-500 mb-3">You wrote: <span className="font-medium text-gray-800">&ldquo;{match.line}&rdquo;</span></p>
+                  <div className="space-y-2">
+                    {match.candidates.map(candidate => (
+                      <label
+                        key={candidate.entry.id}
+                        className={`flex items-center justify-between rounded-lg border p-3 cursor-pointer transition-colors ${
+                          printingChoices[match.cardId] === candidate.entry.id
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center space-x-3">
+                          <input
+                            type="radio"
+                            name={`printing-${match.cardId}`}
+                            checked={printingChoices[match.cardId] === candidate.entry.id}
+                            onChange={() => setPrintingChoices({ ...printingChoices, [match.cardId]: candidate.entry.id })}
+                          />
+                          <div>
+                            <p className="font-semibold text-gray-800">{candidate.entry.name}</p>
+                            <p className="text-sm text-gray-600">{candidate.entry.set} #{candidate.entry.number} · {candidate.entry.rarity}</p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm text-gray-500">Market: ${candidate.marketPrice.toFixed(2)}</p>
+                          <p className="text-xs text-gray-400">
+                            {Math.round(candidate.score * 100)}% match{candidate.strategy === 'number' && ' · by card number'}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex space-x-4">
+              <button
+                onClick={confirmPrintings}
+                className="flex-1 bg-green-600 text-white py-3 px-6 rounded-lg hover:bg-green-700 transition-colors font-semibold"
+              >
+                Continue to Offer
+              </button>
+              <button
+                onClick={() => setAmbiguousLines([])}
+                className="flex-1 bg-gray-300 text-gray-700 py-3 px-6 rounded-lg hover:bg-gray-400 transition-colors"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (showOffer) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
         <div className="max-w-4xl mx-auto">
           <div className="bg-white rounded-xl shadow-lg p-6">
-            <h1 className="text-2xl font-bold text-gray-800 mb-6">Your Card Offer</h1>
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">Your Card Offer</h1>
+            {offer && (
+              <p className={`flex items-center text-sm mb-2 ${offerTimeLeft > 0 ? 'text-gray-600' : 'text-red-600'}`}>
+                <Clock className="w-4 h-4 mr-1" />
+                {offerTimeLeft > 0
+                  ? `Prices locked for ${formatTimeLeft(offerTimeLeft)} (until ${new Date(offer.expiresAt).toLocaleString()})`
+                  : 'This offer has expired. Accepting it will re-quote your cards at today\'s prices.'}
+              </p>
+            )}
+            {offer && (
+              <p className="text-sm text-gray-600 mb-6">
+                Save this offer:{' '}
+                <a href={`/api/offers/${offer.id}/export?format=csv`} className="text-blue-600 hover:underline">CSV</a>
+                {' · '}
+                <a href={`/api/offers/${offer.id}/export?format=json`} className="text-blue-600 hover:underline">JSON</a>
+              </p>
+            )}
             
             <div className="mb-6 p-4 bg-green-50 rounded-lg border border-green-200">
               <div className="flex justify-between items-center">
+                <div>
+                  <p className="text-sm text-gray-600">Total Cards</p>
+                  <p className="text-xl font-semibold text-gray-800">{totalCards}</p>
+                </div>
                 <div>
                   <p className="text-sm text-gray-600">Total Market Value</p>
                   <p className="text-xl font-semibold text-gray-800">${totalMarketValue.toFixed(2)}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-gray-600">Our Offer (70% of market)</p>
+                  <p className="text-sm text-gray-600">
+                    Our Offer{totalMarketValue > 0 && ` (${Math.round((totalOffer / totalMarketValue) * 100)}% of market)`}
+                  </p>
                   <p className="text-3xl font-bold text-green-600">${totalOffer.toFixed(2)}</p>
                 </div>
               </div>
+              {offerBreakdown.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-green-200 space-y-1">
+                  {offerBreakdown.map(line => (
+                    <div key={line.bracket} className="flex justify-between text-sm text-gray-600">
+                      <span>{line.bracket} · {line.totalCards} {line.totalCards === 1 ? 'card' : 'cards'} · market ${line.totalMarketValue.toFixed(2)}</span>
+                      <span className="font-semibold text-gray-800">${line.totalOffer.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <div className="grid gap-4 mb-6">
               {identifiedCards.map(card => (
                 <div key={card.id} className="border rounded-lg p-4 flex items-center space-x-4">
                   <div className="w-16 h-20 bg-gray-200 rounded flex-shrink-0 flex items-center justify-center">
-                    <span className="text-xs text-gray-500">Card</span>
+                    {card.imageIndex !== undefined && uploadedImages[card.imageIndex] && card.imageRegion?.width && card.imageRegion.height ? (
+                      <CardCrop src={uploadedImages[card.imageIndex].url} region={card.imageRegion} />
+                    ) : (
+                      <span className="text-xs text-gray-500">Card</span>
+                    )}
                   </div>
                   <div className="flex-1">
-                    <h3 className="font-semibold text-gray-800">{card.name}</h3>
+                    <h3 className="font-semibold text-gray-800">
+                      {card.name}
+                      {card.quantity > 1 && <span className="ml-2 text-sm font-medium text-blue-600">×{card.quantity}</span>}
+                    </h3>
                     <p className="text-sm text-gray-600">{card.set} #{card.number}</p>
-                    <p className="text-sm text-gray-500">Condition: {card.condition}</p>
+                    <p className="text-sm text-gray-500">
+                      Condition: {card.condition}
+                      {card.foil && ' · Foil'}
+                      {card.language && ` · ${card.language}`}
+                    </p>
+                    {card.offerBracket && (
+                      <p className="text-xs text-gray-400">
+                        {card.offerBracket} · {card.offerPercentage !== undefined ? `${Math.round(card.offerPercentage * 100)}% of market` : 'flat rate'}
+                      </p>
+                    )}
+                    {card.priceSpike && (
+                      <p className="text-xs text-amber-600">Price jumped recently, so our offer is based on where it was before the spike</p>
+                    )}
                   </div>
                   <div className="text-right">
-                    <p className="text-sm text-gray-500">Market: ${card.marketPrice.toFixed(2)}</p>
-                    <p className="font-semibold text-green-600">Our Offer: ${card.ourOffer.toFixed(2)}</p>
+                    <p className="text-sm text-gray-500">Market: ${card.marketPrice.toFixed(2)}{card.quantity > 1 && ' each'}</p>
+                    <p className="font-semibold text-green-600">Our Offer: ${card.ourOffer.toFixed(2)}{card.quantity > 1 && ' each'}</p>
+                    {card.quantity > 1 && (
+                      <p className="text-sm font-semibold text-gray-800">
+                        {card.quantity} × ${card.ourOffer.toFixed(2)} = ${(card.ourOffer * card.quantity).toFixed(2)}
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -216,7 +677,7 @@ export default function Home() {
 
             <div className="flex space-x-4">
               <button
-                onClick={acceptOffer}
+                onClick={() => setShowCheckout(true)}
                 className="flex-1 bg-green-600 text-white py-3 px-6 rounded-lg hover:bg-green-700 transition-colors font-semibold"
               >
                 Accept Offer - ${totalOffer.toFixed(2)}
@@ -270,6 +731,17 @@ export default function Home() {
               <span className="inline-block w-5 h-5 mr-2 text-center">📝</span>
               Type Card List
             </button>
+            <button
+              onClick={() => setActiveTab('sheet')}
+              className={`flex-1 py-4 px-6 text-center font-medium transition-colors ${
+                activeTab === 'sheet'
+                  ? 'border-b-2 border-blue-500 text-blue-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <FileSpreadsheet className="w-5 h-5 inline mr-2" />
+              Upload Spreadsheet
+            </button>
           </div>
         </div>
 
@@ -300,11 +772,14 @@ export default function Home() {
                 <h3 className="font-semibold mb-3">Uploaded Images ({uploadedImages.length})</h3>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   {uploadedImages.map(image => (
-                    <div key={image.id} className="relative">
-                      <img
+                    <div key={image.id} className="relative h-32">
+                      {/* Local blob URLs, so there is nothing for the optimizer to fetch */}
+                      <Image
                         src={image.url}
                         alt={image.name}
-                        className="w-full h-32 object-cover rounded-lg border"
+                        fill
+                        unoptimized
+                        className="object-cover rounded-lg border"
                       />
                       <button
                         onClick={() => removeImage(image.id)}
@@ -350,8 +825,9 @@ export default function Home() {
               <h3 className="font-semibold text-blue-800 mb-2">Formatting Tips:</h3>
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• Include card name, set, and condition when possible</li>
-                <li>• Example: "Charizard Base Set Near Mint"</li>
-                <li>• Example: "Pikachu V 043/185 Mint"</li>
+                <li>• Example: &ldquo;Charizard Base Set Near Mint&rdquo;</li>
+                <li>• Example: &ldquo;Pikachu V 043/185 Mint&rdquo;</li>
+                <li>• Example: &ldquo;3x Pikachu Base Set&rdquo; or &ldquo;Charizard x2&rdquo; for multiple copies</li>
                 <li>• One card per line</li>
               </ul>
             </div>
@@ -366,13 +842,101 @@ export default function Home() {
           </div>
         )}
 
+        {/* Spreadsheet Tab */}
+        {activeTab === 'sheet' && (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold mb-4">Upload a Spreadsheet</h2>
+            
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center mb-6">
+              <FileSpreadsheet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 mb-4">
+                CSV or TSV with a header row, up to 5,000 rows. Save Excel or Google Sheets files as CSV first.
+              </p>
+              <label className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors cursor-pointer inline-block">
+                {sheetFile ? 'Choose Another File' : 'Choose File'}
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                  onChange={handleSheetUpload}
+                  className="hidden"
+                />
+              </label>
+              {sheetFile && <p className="text-sm text-gray-500 mt-3">{sheetFile.name}</p>}
+            </div>
+
+            {sheetPreview && (
+              <div className="mb-6">
+                <h3 className="font-semibold mb-3">Match Your Columns</h3>
+                {sheetPreview.format && (
+                  <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg px-3 py-2 mb-3">
+                    Recognised as a {sheetPreview.format.name} export. We&apos;ve matched its columns and will read its set codes and conditions for you.
+                  </p>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <label key={field} className="text-sm text-gray-700">
+                      {label}{field === 'name' && ' *'}
+                      <select
+                        value={columnMapping[field] || ''}
+                        onChange={(e) => setColumnMapping({ ...columnMapping, [field]: e.target.value || undefined })}
+                        className="block w-full mt-1 p-2 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Not in file</option>
+                        {sheetPreview.headers.map(header => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {sheetPreview.headers.map(header => {
+                          const field = IMPORT_FIELDS.find(({ field }) => columnMapping[field] === header);
+                          return (
+                            <th key={header} className="px-3 py-2 text-left font-medium text-gray-700">
+                              {header}
+                              <span className="block text-xs font-normal text-blue-600">{field ? field.label : '—'}</span>
+                            </th>
+                          );
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheetPreview.sampleRows.map((row, index) => (
+                        <tr key={index} className="border-t">
+                          {sheetPreview.headers.map((header, column) => (
+                            <td key={header} className="px-3 py-2 text-gray-600">{row[column]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Showing the first {sheetPreview.sampleRows.length} rows. Blank conditions count as Near Mint and blank quantities as 1.</p>
+              </div>
+            )}
+
+            <button
+              onClick={processSpreadsheet}
+              disabled={!sheetPreview || !columnMapping.name || loading}
+              className="w-full bg-green-600 text-white py-3 px-6 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Processing Cards...' : 'Get Offer for Spreadsheet'}
+            </button>
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-lg p-6 max-w-sm w-full mx-4">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
               <p className="text-center text-gray-600">
-                {activeTab === 'upload' ? 'Analyzing your card images...' : 'Processing your card list...'}
+                {activeTab === 'upload' ? 'Analyzing your card images...' : activeTab === 'sheet' ? 'Matching your spreadsheet...' : 'Processing your card list...'}
               </p>
             </div>
           </div>
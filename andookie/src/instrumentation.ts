@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  const interval = Number(process.env.PRICE_REFRESH_INTERVAL_MINUTES);
+
+  if (process.env.NEXT_RUNTIME === 'nodejs' && interval > 0) {
+    const { startPriceRefreshSchedule } = await import('./lib/priceRefresh');
+    startPriceRefreshSchedule(interval);
+  }
+}
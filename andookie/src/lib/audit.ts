@@ -0,0 +1,47 @@
+// src/lib/audit.ts
+
+import path from 'path';
+import { AuditEntry } from './types';
+import { DATA_DIR, JsonCollection } from './storage';
+
+export interface AuditLog {
+  record(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<AuditEntry>;
+  list(filter?: { targetId?: string; limit?: number }): Promise<AuditEntry[]>;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = path.join(DATA_DIR, 'audit.json');
+
+/**
+ * Append-only log of staff changes, kept as a JSON file
+ */
+export class FileAuditLog implements AuditLog {
+  private entries: JsonCollection<AuditEntry>;
+
+  constructor(filePath: string = DEFAULT_AUDIT_LOG_PATH) {
+    this.entries = new JsonCollection(filePath, stored => ({ ...stored, at: new Date(stored.at) }));
+  }
+
+  async record(entry: Omit<AuditEntry, 'id' | 'at'>): Promise<AuditEntry> {
+    const at = new Date();
+    const random = Math.random().toString(36).slice(2, 8);
+    return this.entries.save({ ...entry, id: `aud_${at.getTime().toString(36)}${random}`, at });
+  }
+
+  // Newest first
+  async list(filter: { targetId?: string; limit?: number } = {}): Promise<AuditEntry[]> {
+    const entries = (await this.entries.list())
+      .filter(entry => !filter.targetId || entry.targetId === filter.targetId)
+      .sort((a, b) => b.at.getTime() - a.at.getTime());
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+}
+
+let auditLog: AuditLog | null = null;
+
+export const getAuditLog = (): AuditLog => {
+  if (!auditLog) {
+    auditLog = new FileAuditLog(process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH);
+  }
+  return auditLog;
+};
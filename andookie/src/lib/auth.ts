@@ -0,0 +1,65 @@
+// src/lib/auth.ts
+
+// Kept free of Node-only imports: the middleware runs this on the edge runtime
+
+import { UnauthorizedError } from './errors';
+
+export const ADMIN_REALM = 'Andookie Admin';
+
+/**
+ * Staff accounts from ADMIN_CREDENTIALS, formatted as
+ * "name:password,other:password". No accounts means nobody gets in.
+ */
+export const getAdminCredentials = (): Map<string, string> => {
+  const credentials = new Map<string, string>();
+  for (const pair of (process.env.ADMIN_CREDENTIALS || '').split(',')) {
+    const separator = pair.indexOf(':');
+    if (separator <= 0) continue;
+    credentials.set(pair.slice(0, separator).trim(), pair.slice(separator + 1));
+  }
+  return credentials;
+};
+
+// Compare without bailing on the first differing character
+const safeEqual = (a: string, b: string): boolean => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+};
+
+/**
+ * The staff member a request's Basic auth header belongs to, or null if it
+ * doesn't carry valid credentials
+ */
+export const getAdminUser = (authorization: string | null): string | null => {
+  if (!authorization?.startsWith('Basic ')) {
+    return null;
+  }
+
+  let decoded: string;
+  try {
+    decoded = atob(authorization.slice('Basic '.length).trim());
+  } catch {
+    return null;
+  }
+
+  const separator = decoded.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const user = decoded.slice(0, separator);
+  const password = getAdminCredentials().get(user);
+  return password !== undefined && safeEqual(password, decoded.slice(separator + 1)) ? user : null;
+};
+
+// For handlers that need to know who is acting, e.g. to record it
+export const requireAdminUser = (request: Request): string => {
+  const user = getAdminUser(request.headers.get('authorization'));
+  if (!user) {
+    throw new UnauthorizedError();
+  }
+  return user;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { code39Svg, isCode39Encodable } from './barcode';
+
+// Bar and space widths, in narrow units, read back off the drawn bars
+const decodeWidths = (svg: string, narrowWidth: number): number[] => {
+  const bars = [...svg.matchAll(/<rect x="(\d+)" y="0" width="(\d+)"/g)].map(([, x, width]) => [Number(x), Number(width)]);
+  const widths: number[] = [];
+  bars.forEach(([x, width], index) => {
+    if (index > 0) {
+      const [previousX, previousWidth] = bars[index - 1];
+      widths.push((x - previousX - previousWidth) / narrowWidth);
+    }
+    widths.push(width / narrowWidth);
+  });
+  return widths;
+};
+
+describe('isCode39Encodable', () => {
+  it('accepts order ids and rejects what Code 39 lacks', () => {
+    expect(isCode39Encodable('AND-LQ3K9F-7XQ2')).toBe(true);
+    expect(isCode39Encodable('and-lower')).toBe(false);
+    expect(isCode39Encodable('A*B')).toBe(false);
+    expect(isCode39Encodable('')).toBe(false);
+  });
+});
+
+describe('code39Svg', () => {
+  it('wraps the value in start and stop characters', () => {
+    // "*" is bar-space-bar-space-bar-space-bar-space-bar with the 2nd, 5th and 7th wide
+    const star = [1, 3, 1, 1, 3, 1, 3, 1, 1];
+    // "A" has the 1st, 6th and 9th wide
+    const a = [3, 1, 1, 1, 1, 3, 1, 1, 3];
+    expect(decodeWidths(code39Svg('A', { narrowWidth: 2 }), 2)).toEqual([...star, 1, ...a, 1, ...star]);
+  });
+
+  it('leaves a quiet zone either side', () => {
+    const svg = code39Svg('A', { narrowWidth: 2 });
+    const width = Number(svg.match(/width="(\d+)"/)![1]);
+    // Three characters of 15 narrow units, two gaps, two quiet zones of 10
+    expect(width).toBe((3 * 15 + 2 + 20) * 2);
+    expect(svg).toContain('<rect x="20" y="0"');
+  });
+
+  it('refuses values it cannot encode', () => {
+    expect(() => code39Svg('lower')).toThrow(/can't be encoded/);
+  });
+});
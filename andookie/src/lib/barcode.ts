@@ -0,0 +1,60 @@
+// src/lib/barcode.ts
+
+/**
+ * Code 39 bar patterns: nine elements per character, alternating bar and
+ * space starting with a bar, '1' marking the three wide ones. Code 39 is
+ * read by every handheld scanner and covers the characters in our order
+ * ids (uppercase letters, digits and dashes).
+ */
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000',
+  '4': '000110001', '5': '100110000', '6': '001110000', '7': '000100101',
+  '8': '100100100', '9': '001100100',
+  'A': '100001001', 'B': '001001001', 'C': '101001000', 'D': '000011001',
+  'E': '100011000', 'F': '001011000', 'G': '000001101', 'H': '100001100',
+  'I': '001001100', 'J': '000011100', 'K': '100000011', 'L': '001000011',
+  'M': '101000010', 'N': '000010011', 'O': '100010010', 'P': '001010010',
+  'Q': '000000111', 'R': '100000110', 'S': '001000110', 'T': '000010110',
+  'U': '110000001', 'V': '011000001', 'W': '111000000', 'X': '010010001',
+  'Y': '110010000', 'Z': '011010000',
+  '-': '010000101', '.': '110000100', ' ': '011000100',
+  '*': '010010100' // Start/stop only
+};
+
+const WIDE_RATIO = 3;
+
+// Quiet zone either side, in narrow bar widths
+const QUIET_ZONE = 10;
+
+export const isCode39Encodable = (value: string): boolean => {
+  return value.length > 0 && [...value].every(char => char !== '*' && char in CODE39_PATTERNS);
+};
+
+/**
+ * Draw a value as a Code 39 barcode, returned as an SVG element to inline
+ * into a printable page
+ */
+export const code39Svg = (value: string, options: { height?: number; narrowWidth?: number } = {}): string => {
+  const { height = 60, narrowWidth = 2 } = options;
+  if (!isCode39Encodable(value)) {
+    throw new Error(`"${value}" can't be encoded as Code 39`);
+  }
+
+  const bars: string[] = [];
+  let x = QUIET_ZONE * narrowWidth;
+
+  for (const char of `*${value}*`) {
+    [...CODE39_PATTERNS[char]].forEach((wide, index) => {
+      const width = wide === '1' ? narrowWidth * WIDE_RATIO : narrowWidth;
+      if (index % 2 === 0) {
+        bars.push(`<rect x="${x}" y="0" width="${width}" height="${height}"/>`);
+      }
+      x += width;
+    });
+    // Narrow gap between characters
+    x += narrowWidth;
+  }
+
+  const totalWidth = x - narrowWidth + QUIET_ZONE * narrowWidth;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${height}" viewBox="0 0 ${totalWidth} ${height}" role="img" aria-label="${value}"><rect width="100%" height="100%" fill="#fff"/><g fill="#000">${bars.join('')}</g></svg>`;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { checkUploadSize, importCardRows, isColumnMapping, MAX_IMPORT_BYTES, previewImport } from './bulkImport';
+import { createLineMatchContext } from './cardLines';
+
+const upload = (headers: Record<string, string>) => new Request('http://localhost/api/cards/import', {
+  method: 'POST',
+  headers
+});
+
+describe('checkUploadSize', () => {
+  it('lets through uploads within the limit', () => {
+    expect(() => checkUploadSize(upload({ 'content-length': String(MAX_IMPORT_BYTES) }))).not.toThrow();
+  });
+
+  it('refuses oversized uploads and ones of unknown length before they are read', () => {
+    expect(() => checkUploadSize(upload({ 'content-length': String(MAX_IMPORT_BYTES * 2) }))).toThrow(/too large/);
+    expect(() => checkUploadSize(upload({}))).toThrow(/known length/);
+  });
+});
+
+describe('isColumnMapping', () => {
+  it('takes field names mapped to header names', () => {
+    expect(isColumnMapping({ name: 'Card Name', quantity: 'Qty' })).toBe(true);
+    expect(isColumnMapping({})).toBe(true);
+  });
+
+  it('refuses anything else that parses as JSON', () => {
+    for (const value of [null, 42, 'name', ['Card Name'], { name: 3 }, { price: 'Price' }]) {
+      expect(isColumnMapping(value)).toBe(false);
+    }
+  });
+});
+
+describe('importCardRows', () => {
+  // As TCGplayer's collection export writes them, printing and all
+  const tcgplayerExport = [
+    'Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU',
+    '1,Charizard - 4/102,Charizard,Base Set,4/102,BS,Unlimited Holofoil,Near Mint,English,Holo Rare,42382,1069720',
+    '1,Machamp - 8/102,Machamp,Base Set,8/102,BS,1st Edition Holofoil,Lightly Played,English,Holo Rare,42388,1069840',
+    '2,Chansey - 3/102,Chansey,Base Set,3/102,BS,Unlimited,Moderately Played,English,Holo Rare,42380,1069680',
+    '1,Alakazam - 1/102,Alakazam,Base Set,1/102,BS,1st Edition,Near Mint,English,Holo Rare,42378,1069620'
+  ].join('\n');
+
+  it('reads the foil from the printing in a TCGplayer export', async () => {
+    const file = new File([tcgplayerExport], 'tcgplayer.csv', { type: 'text/csv' });
+    const preview = await previewImport(file);
+    expect(preview.format?.id).toBe('tcgplayer');
+
+    const result = await importCardRows(file, preview.delimiter, preview.mapping, await createLineMatchContext(), preview.format?.id);
+
+    expect(result.rowErrors).toEqual([]);
+    expect(result.cards.map(card => [card.name, card.foil])).toEqual([
+      ['Charizard', true],
+      ['Machamp', true],
+      ['Chansey', false],
+      ['Alakazam', false]
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+// src/lib/bulkImport.ts
+
+import { BulkImportResponse, Card, ColumnMapping, ImportField, ImportPreviewResponse, ImportRowError, TextLineMatch } from './types';
+import { ValidationError } from './errors';
+import { detectDelimiter, parseDelimited, parseDelimitedStream } from './csv';
+import { CardLineInput, LineMatchContext, matchCardLine, toLineMatch } from './cardLines';
+import { CollectionExportFormat, detectExportFormat, findExportFormat, normalizeCondition, normalizeHeader } from './importFormats';
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Room for the multipart framing and the form fields sent with the file
+const MAX_UPLOAD_BYTES = MAX_IMPORT_BYTES + 64 * 1024;
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_BYTES = 64 * 1024;
+
+// Let other requests in between batches of rows on big files
+const YIELD_EVERY_ROWS = 250;
+
+// Header names spreadsheets commonly use for each field, normalized
+export const IMPORT_FIELD_HEADERS: Record<ImportField, string[]> = {
+  name: ['name', 'card name', 'card', 'product name', 'product', 'title'],
+  set: ['set', 'set name', 'expansion', 'edition'],
+  setCode: ['set code', 'set id', 'code'],
+  number: ['number', 'card number', 'collector number', 'no', 'num', 'card no', '#'],
+  condition: ['condition', 'cond', 'grade'],
+  quantity: ['quantity', 'qty', 'count', 'copies', 'amount', 'have'],
+  language: ['language', 'lang'],
+  foil: ['foil', 'printing', 'finish', 'holo']
+};
+
+const FOIL_VALUES: Record<string, boolean> = {
+  'yes': true, 'y': true, 'true': true, '1': true, 'x': true,
+  'foil': true, 'holo': true, 'holofoil': true, 'reverse': true, 'reverse holo': true, 'reverse holofoil': true,
+  'no': false, 'n': false, 'false': false, '0': false,
+  'normal': false, 'non foil': false, 'nonfoil': false, 'regular': false
+};
+
+/**
+ * Guess which column holds which field from the header row
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  for (const [field, names] of Object.entries(IMPORT_FIELD_HEADERS) as Array<[ImportField, string[]]>) {
+    const index = normalized.findIndex(header => names.includes(header));
+    if (index !== -1) {
+      mapping[field] = headers[index];
+    }
+  }
+  return mapping;
+};
+
+const checkFileSize = (file: File): void => {
+  if (file.size === 0) {
+    throw new ValidationError('The file is empty', 'file');
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new ValidationError(`File is too large (max ${MAX_IMPORT_BYTES / 1024 / 1024}MB)`, 'file');
+  }
+};
+
+/**
+ * Refuse an oversized upload before its form is read. Reading the form
+ * buffers the whole body, so by the time the file's own size is checked an
+ * oversized one is already in memory. Node stops reading a body at its
+ * Content-Length, so the header can be trusted.
+ */
+export const checkUploadSize = (request: Request): void => {
+  const length = Number(request.headers.get('content-length'));
+  if (!length) {
+    throw new ValidationError('Upload the file as a form with a known length', 'file');
+  }
+  if (length > MAX_UPLOAD_BYTES) {
+    throw new ValidationError(`File is too large (max ${MAX_IMPORT_BYTES / 1024 / 1024}MB)`, 'file');
+  }
+};
+
+const getDelimiter = (file: File, firstLine: string): ImportPreviewResponse['delimiter'] => {
+  return /\.tsv$/i.test(file.name) ? '\t' : detectDelimiter(firstLine);
+};
+
+/**
+ * Read just the top of a spreadsheet: its headers, a few rows and our guess
+ * at the column mapping, for the seller to check before the full import.
+ * Exports from collection apps we know are mapped by their format.
+ */
+export const previewImport = async (file: File): Promise<ImportPreviewResponse> => {
+  checkFileSize(file);
+
+  const head = (await file.slice(0, PREVIEW_BYTES).text()).replace(/^\uFEFF/, '');
+  const delimiter = getDelimiter(file, head.split(/\r?\n/)[0]);
+  const rows = parseDelimited(head, delimiter);
+
+  // The slice may have cut the last row short
+  if (file.size > PREVIEW_BYTES) rows.pop();
+
+  const [headers, ...dataRows] = rows;
+  if (!headers || dataRows.length === 0) {
+    throw new ValidationError('The file needs a header row and at least one card', 'file');
+  }
+
+  const trimmed = headers.map(header => header.trim());
+  const detected = detectExportFormat(trimmed);
+
+  return {
+    fileName: file.name,
+    delimiter,
+    headers: trimmed,
+    mapping: detected ? detected.mapping : suggestMapping(trimmed),
+    format: detected ? { id: detected.format.id, name: detected.format.name } : undefined,
+    sampleRows: dataRows.slice(0, PREVIEW_ROWS)
+  };
+};
+
+// A mapping as the client sent it: field names to header names, nothing else
+export const isColumnMapping = (value: unknown): value is ColumnMapping => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(value).every(([field, header]) =>
+      Object.hasOwn(IMPORT_FIELD_HEADERS, field) && typeof header === 'string'
+    );
+};
+
+type ColumnIndexes = Partial<Record<ImportField, number>>;
+
+const resolveMapping = (headers: string[], mapping: ColumnMapping): ColumnIndexes => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const indexes: ColumnIndexes = {};
+
+  for (const [field, header] of Object.entries(mapping) as Array<[ImportField, string | undefined]>) {
+    if (!header) continue;
+    const index = normalized.indexOf(header.trim().toLowerCase());
+    if (index === -1) {
+      throw new ValidationError(`Column "${header}" isn't in the file`, 'mapping');
+    }
+    indexes[field] = index;
+  }
+
+  if (indexes.name === undefined) {
+    throw new ValidationError('Choose which column holds the card name', 'mapping');
+  }
+  return indexes;
+};
+
+const rowText = (values: string[]): string => {
+  return values.map(value => value.trim()).filter(Boolean).join(', ');
+};
+
+/**
+ * Turn one spreadsheet row into a card to look up, or the reason it can't be
+ */
+export const rowToLineInput = (
+  values: string[],
+  columns: ColumnIndexes,
+  format?: CollectionExportFormat
+): CardLineInput | string => {
+  const get = (field: ImportField) => {
+    const index = columns[field];
+    return index === undefined ? '' : (values[index] ?? '').trim();
+  };
+
+  const name = get('name');
+  if (!name) {
+    return 'Missing card name';
+  }
+
+  const quantityText = get('quantity');
+  const quantity = quantityText ? Number(quantityText) : 1;
+  if (!Number.isInteger(quantity) || quantity < 0 || quantity > 999) {
+    return `Invalid quantity "${quantityText}"`;
+  }
+
+  const conditionText = get('condition');
+  const condition = conditionText ? normalizeCondition(conditionText, format) : 'Near Mint';
+  if (!condition) {
+    return `Unknown condition "${conditionText}"`;
+  }
+
+  const foilText = get('foil').toLowerCase();
+  const foil = !foilText ? undefined
+    : format?.foilPrintings ? format.foilPrintings.test(foilText)
+    : FOIL_VALUES[foilText.replace(/[-_]+/g, ' ')];
+  if (foilText && foil === undefined) {
+    return `Unknown foil value "${get('foil')}"`;
+  }
+
+  // Apps' own set codes ("swsh4") are resolved by the matcher's set registry
+  return {
+    description: [name, get('set'), get('setCode')].filter(Boolean).join(' '),
+    cardNumber: get('number').replace('#', '') || undefined,
+    condition,
+    quantity,
+    originalText: rowText(values),
+    language: get('language') || undefined,
+    foil
+  };
+};
+
+/**
+ * Match every row of an uploaded spreadsheet against the catalog. Rows are
+ * parsed as they stream out of the file rather than from one big string.
+ */
+export const importCardRows = async (
+  file: File,
+  delimiter: ImportPreviewResponse['delimiter'],
+  mapping: ColumnMapping,
+  context: LineMatchContext,
+  formatId?: string
+): Promise<BulkImportResponse> => {
+  checkFileSize(file);
+
+  const format = findExportFormat(formatId);
+  if (formatId && !format) {
+    throw new ValidationError(`Unknown export format "${formatId}"`, 'format');
+  }
+
+  const cards: Card[] = [];
+  const lineMatches: TextLineMatch[] = [];
+  const rowErrors: ImportRowError[] = [];
+  let columns: ColumnIndexes | null = null;
+  let rowNumber = 0;
+
+  for await (const values of parseDelimitedStream(file.stream(), delimiter)) {
+    rowNumber++;
+
+    if (!columns) {
+      columns = resolveMapping(values, mapping);
+      continue;
+    }
+
+    if (rowNumber - 1 > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Too many rows (max ${MAX_IMPORT_ROWS.toLocaleString()})`, 'file');
+    }
+
+    if (rowNumber % YIELD_EVERY_ROWS === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const input = rowToLineInput(values, columns, format);
+    if (typeof input === 'string') {
+      rowErrors.push({ row: rowNumber, text: rowText(values), error: input });
+      continue;
+    }
+
+    // Spreadsheets often keep a row for cards they've since sold
+    if (input.quantity === 0) {
+      continue;
+    }
+
+    const parsed = matchCardLine(input, context);
+    if (!parsed) {
+      rowErrors.push({ row: rowNumber, text: input.originalText, error: 'No matching card in our catalog' });
+      continue;
+    }
+
+    cards.push(parsed.card);
+    lineMatches.push(toLineMatch(input.originalText, parsed));
+  }
+
+  if (!columns) {
+    throw new ValidationError('The file needs a header row and at least one card', 'file');
+  }
+
+  return {
+    cards,
+    totalLines: rowNumber - 1,
+    matched: cards.length,
+    unmatched: rowErrors.map(error => error.text),
+    unmatchedLines: rowErrors.length,
+    lineMatches,
+    rowErrors
+  };
+};
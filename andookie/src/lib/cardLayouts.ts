@@ -0,0 +1,113 @@
+// src/lib/cardLayouts.ts
+
+import { BoundingBox, SetInfo } from './types';
+import { Point } from './imagePreprocessing';
+
+// A box as fractions of the card's width and height, from its top left
+export interface RelativeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where one era of cards prints its name and collector number. Regions are
+ * generous: they only have to hold the text, and the less else they hold
+ * the better OCR reads it.
+ */
+export interface CardLayout {
+  id: string;
+  name: string;
+  // Sets released from this date (and before `until`) are printed this way
+  from: Date;
+  until?: Date;
+  nameRegion: RelativeBox;
+  numberRegion: RelativeBox;
+}
+
+// Newest first, since that's what most sellers send
+export const CARD_LAYOUTS: CardLayout[] = [
+  {
+    id: 'sv',
+    name: 'Scarlet & Violet',
+    from: new Date('2023-03-01'),
+    // Stage label on the left of the name; set code, language and number bottom left
+    nameRegion: { x: 0.12, y: 0.02, width: 0.6, height: 0.07 },
+    numberRegion: { x: 0.02, y: 0.92, width: 0.45, height: 0.065 }
+  },
+  {
+    id: 'swsh',
+    name: 'Sword & Shield',
+    from: new Date('2020-02-01'),
+    until: new Date('2023-03-01'),
+    nameRegion: { x: 0.12, y: 0.025, width: 0.6, height: 0.07 },
+    numberRegion: { x: 0.02, y: 0.92, width: 0.45, height: 0.065 }
+  },
+  {
+    id: 'bw-sm',
+    name: 'Black & White to Sun & Moon',
+    from: new Date('2011-04-01'),
+    until: new Date('2020-02-01'),
+    nameRegion: { x: 0.05, y: 0.02, width: 0.67, height: 0.08 },
+    // The number moved from one corner to the other over these years
+    numberRegion: { x: 0.02, y: 0.91, width: 0.96, height: 0.07 }
+  },
+  {
+    id: 'dp',
+    name: 'Diamond & Pearl to Call of Legends',
+    from: new Date('2007-05-01'),
+    until: new Date('2011-04-01'),
+    nameRegion: { x: 0.05, y: 0.02, width: 0.67, height: 0.08 },
+    numberRegion: { x: 0.6, y: 0.91, width: 0.38, height: 0.07 }
+  },
+  {
+    id: 'ex',
+    name: 'EX',
+    from: new Date('2003-06-01'),
+    until: new Date('2007-05-01'),
+    nameRegion: { x: 0.06, y: 0.025, width: 0.64, height: 0.07 },
+    numberRegion: { x: 0.65, y: 0.91, width: 0.33, height: 0.07 }
+  },
+  {
+    id: 'wotc',
+    name: 'Wizards of the Coast',
+    from: new Date('1999-01-01'),
+    until: new Date('2003-06-01'),
+    // Name alone on the top line, HP on the right; number bottom right
+    nameRegion: { x: 0.06, y: 0.03, width: 0.64, height: 0.07 },
+    numberRegion: { x: 0.65, y: 0.9, width: 0.33, height: 0.07 }
+  }
+];
+
+const contains = (box: RelativeBox, point: Point): boolean => {
+  return point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height;
+};
+
+export const layoutForSet = (set: SetInfo): CardLayout | undefined => {
+  return CARD_LAYOUTS.find(layout =>
+    set.releaseDate >= layout.from && (!layout.until || set.releaseDate < layout.until)
+  );
+};
+
+/**
+ * The layouts a card could be printed in: its set's era when the set is
+ * known, otherwise the eras that put the number where one was seen (as a
+ * fraction of the card), otherwise all of them
+ */
+export const selectLayouts = (set?: SetInfo, numberAt?: Point): CardLayout[] => {
+  const era = set && layoutForSet(set);
+  if (era) {
+    return [era];
+  }
+
+  const placed = numberAt ? CARD_LAYOUTS.filter(layout => contains(layout.numberRegion, numberAt)) : [];
+  return placed.length > 0 ? placed : CARD_LAYOUTS;
+};
+
+export const toPixels = (box: RelativeBox, width: number, height: number): BoundingBox => ({
+  x: Math.round(box.x * width),
+  y: Math.round(box.y * height),
+  width: Math.round(box.width * width),
+  height: Math.round(box.height * height)
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LineMatchContext, parseCardLine } from './cardLines';
+import { CardMatcher } from './matching';
+import { PricingService } from './pricing';
+import { SetRegistry } from './sets';
+import { CardDatabaseEntry, SetInfo } from './types';
+
+const entry = (id: string, name: string, set: string, setCode: string, number: string): CardDatabaseEntry => ({
+  id, name, set, setCode, number,
+  rarity: 'Rare',
+  marketPrice: 10,
+  lastUpdated: new Date('2024-01-01'),
+  variants: ['Near Mint', 'Lightly Played']
+});
+
+const sets: SetInfo[] = [
+  { name: 'Base Set', code: 'BS', aliases: ['base'], releaseDate: new Date('1999-01-09'), printedTotal: 102 },
+  { name: '151', code: 'MEW', aliases: ['sv151'], releaseDate: new Date('2023-09-22'), printedTotal: 165 }
+];
+
+const registry = new SetRegistry(sets);
+
+const context: LineMatchContext = {
+  matcher: new CardMatcher([
+    entry('bs-4', 'Charizard', 'Base Set', 'BS', '4/102'),
+    entry('mew-151', 'Mew ex', '151', 'MEW', '151/165'),
+    entry('mew-6', 'Charizard ex', '151', 'MEW', '6/165')
+  ], registry),
+  sets: registry,
+  pricing: new PricingService(),
+  histories: new Map()
+};
+
+const parse = (line: string) => {
+  const parsed = parseCardLine(line, context);
+  return parsed && { id: parsed.card.catalogId, quantity: parsed.card.quantity, condition: parsed.card.condition };
+};
+
+describe('parseCardLine', () => {
+  it('reads the quantity notations sellers use', () => {
+    for (const line of ['3x Charizard Base Set', 'x3 Charizard Base Set', 'Charizard Base Set x3', 'Charizard Base Set 3x', 'Charizard Base Set (3)', '3 Charizard Base Set']) {
+      expect(parse(line)).toMatchObject({ id: 'bs-4', quantity: 3 });
+    }
+  });
+
+  it('keeps a leading number that names the set', () => {
+    expect(parse('151 Mew ex')).toMatchObject({ id: 'mew-151', quantity: 1 });
+    expect(parse('2x 151 Mew ex')).toMatchObject({ id: 'mew-151', quantity: 2 });
+  });
+
+  it('takes the condition and card number out of the description', () => {
+    expect(parse('Charizard 4/102 Lightly Played')).toEqual({ id: 'bs-4', quantity: 1, condition: 'Lightly Played' });
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCardLine('   ', context)).toBeNull();
+  });
+});
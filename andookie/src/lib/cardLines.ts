@@ -0,0 +1,216 @@
+// src/lib/cardLines.ts
+
+import { getCardRepository } from './catalog';
+import { CardMatcher } from './matching';
+import { getPricingService, PricingService, toCardPricing } from './pricing';
+import { loadPriceHistories } from './priceHistory';
+import { getSetRegistry, SetRegistry } from './sets';
+import { Card, CardCandidate, CardCondition, PricePoint, TextLineMatch } from './types';
+
+// How many catalog candidates to return per line
+const MAX_CANDIDATES = 3;
+
+// Runner-ups scoring within this much of the best match make a line ambiguous
+const AMBIGUITY_MARGIN = 0.3;
+
+// Condition keywords to detect, longest first so "near mint" wins over "mint"
+export const CONDITION_KEYWORDS: Array<[string, CardCondition]> = [
+  ['moderately played', 'Moderately Played'],
+  ['lightly played', 'Lightly Played'],
+  ['heavily played', 'Heavily Played'],
+  ['near mint', 'Near Mint'],
+  ['damaged', 'Heavily Played'],
+  ['mint', 'Mint'],
+  ['nm', 'Near Mint'],
+  ['lp', 'Lightly Played'],
+  ['mp', 'Moderately Played'],
+  ['hp', 'Heavily Played']
+];
+
+export const findConditionKeyword = (text: string): { keyword: string; condition: CardCondition } | null => {
+  for (const [keyword, condition] of CONDITION_KEYWORDS) {
+    if (new RegExp(`\\b${keyword}\\b`, 'i').test(text)) {
+      return { keyword, condition };
+    }
+  }
+  return null;
+};
+
+// One card to look up, however the seller described it
+export interface CardLineInput {
+  description: string;
+  cardNumber?: string;
+  condition: CardCondition;
+  quantity: number;
+  originalText: string;
+  language?: string;
+  foil?: boolean;
+}
+
+export interface ParsedCardLine {
+  card: Card;
+  candidates: CardCandidate[];
+  ambiguous: boolean;
+}
+
+// Everything matching needs, loaded once per request
+export interface LineMatchContext {
+  matcher: CardMatcher;
+  sets: SetRegistry;
+  pricing: PricingService;
+  histories: Map<string, PricePoint[]>;
+}
+
+export const createLineMatchContext = async (): Promise<LineMatchContext> => {
+  const sets = await getSetRegistry();
+  return {
+    matcher: new CardMatcher(await getCardRepository().list(), sets),
+    sets,
+    pricing: await getPricingService(),
+    histories: await loadPriceHistories()
+  };
+};
+
+/**
+ * Find and price the catalog card a description refers to, along with the
+ * close runner-ups the seller may have meant instead
+ */
+export const matchCardLine = (input: CardLineInput, context: LineMatchContext): ParsedCardLine | null => {
+  const { matcher, pricing, histories } = context;
+  const { condition } = input;
+
+  const matches = matcher.match(input.description, {
+    cardNumber: input.cardNumber || undefined,
+    limit: MAX_CANDIDATES
+  });
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const [bestMatch, ...runnersUp] = matches;
+  const candidates: CardCandidate[] = matches.map(match => {
+    const quote = pricing.quoteEntry(match.entry, condition, histories.get(match.entry.id));
+    return {
+      entry: match.entry,
+      score: match.score,
+      strategy: match.strategy,
+      ...toCardPricing(quote)
+    };
+  });
+
+  // A collector number and set total settle it unless several printings share
+  // them; a name match with close runner-ups needs the seller's call
+  const ambiguous = bestMatch.strategy === 'number'
+    ? runnersUp.some(match => match.strategy === 'number' && bestMatch.score - match.score <= AMBIGUITY_MARGIN)
+    : bestMatch.numberScore < 1 && runnersUp.some(match => bestMatch.score - match.score <= AMBIGUITY_MARGIN);
+
+  const entry = bestMatch.entry;
+  const quote = pricing.quoteEntry(entry, condition, histories.get(entry.id));
+
+  return {
+    card: {
+      id: Date.now() + Math.random(), // Unique ID for each instance
+      name: entry.name,
+      set: entry.set,
+      number: entry.number,
+      condition,
+      ...toCardPricing(quote),
+      quantity: input.quantity,
+      confidence: bestMatch.score,
+      originalText: input.originalText,
+      catalogId: entry.id,
+      matchStrategy: bestMatch.strategy,
+      language: input.language,
+      foil: input.foil
+    },
+    candidates,
+    ambiguous
+  };
+};
+
+// Quantity notations, checked in order: "3x Charizard", "x3 Charizard",
+// "Charizard x3", "Charizard 3x" and "Charizard (3)"
+const QUANTITY_PATTERNS: RegExp[] = [
+  /^\s*(\d{1,3})\s*[x×]\s+/i,
+  /^\s*[x×]\s*(\d{1,3})\s+/i,
+  /\s+[x×]\s*(\d{1,3})\s*$/i,
+  /\s+(\d{1,3})\s*[x×]\s*$/i,
+  /\(\s*[x×]?\s*(\d{1,3})\s*[x×]?\s*\)/i
+];
+
+// "3 Charizard", unless the number is part of the card ("151 Mew ex")
+const LEADING_NUMBER = /^\s*(\d{1,3})\s+(?=[a-z])/i;
+
+const extractQuantity = (text: string): { quantity: number; rest: string } | null => {
+  for (const pattern of QUANTITY_PATTERNS) {
+    const match = text.match(pattern);
+    const quantity = match ? parseInt(match[1], 10) : 0;
+    if (match && quantity > 0) {
+      return { quantity, rest: text.replace(match[0], ' ') };
+    }
+  }
+  return null;
+};
+
+// Match what's left of a typed line once its quantity is taken out
+const matchDescription = (
+  text: string,
+  quantity: number,
+  originalText: string,
+  context: LineMatchContext
+): ParsedCardLine | null => {
+  // Whatever isn't condition or card number is the card (and set) description
+  let description = text;
+
+  let condition: CardCondition = 'Near Mint';
+  const conditionMatch = findConditionKeyword(description);
+  if (conditionMatch) {
+    condition = conditionMatch.condition;
+    description = description.replace(new RegExp(`\\b${conditionMatch.keyword}\\b`, 'i'), ' ');
+  }
+
+  // Card number if present (format: 123/456 or #123)
+  const numberMatch = description.match(/(\d+\/\d+|#\d+)/);
+  let cardNumber = '';
+  if (numberMatch) {
+    cardNumber = numberMatch[1].replace('#', '');
+    description = description.replace(numberMatch[1], ' ');
+  }
+
+  return matchCardLine({ description, cardNumber, condition, quantity, originalText }, context);
+};
+
+/**
+ * Read one line of a typed card list: its quantity, condition, card number
+ * and the card it describes
+ */
+export const parseCardLine = (line: string, context: LineMatchContext): ParsedCardLine | null => {
+  const trimmedLine = line.trim();
+  if (!trimmedLine) return null;
+
+  const explicit = extractQuantity(trimmedLine);
+  if (explicit) {
+    return matchDescription(explicit.rest, explicit.quantity, trimmedLine, context);
+  }
+
+  // A bare leading number is a count unless it names a set, or the line
+  // only matches a card with it kept
+  const leading = trimmedLine.match(LEADING_NUMBER);
+  const quantity = leading ? parseInt(leading[1], 10) : 0;
+  if (!leading || quantity === 0 || context.sets.findMentions(leading[1]).length > 0) {
+    return matchDescription(trimmedLine, 1, trimmedLine, context);
+  }
+
+  return matchDescription(trimmedLine.replace(leading[0], ' '), quantity, trimmedLine, context) ||
+    matchDescription(trimmedLine, 1, trimmedLine, context);
+};
+
+export const toLineMatch = (line: string, parsed: ParsedCardLine): TextLineMatch => {
+  return {
+    line,
+    cardId: parsed.card.id,
+    ambiguous: parsed.ambiguous,
+    candidates: parsed.candidates
+  };
+};
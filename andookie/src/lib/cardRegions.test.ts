@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { groupCardRegions } from './cardRegions';
+import { OCRResult } from './types';
+
+const word = (text: string, x: number, y: number, width: number = 60): OCRResult => ({
+  text,
+  confidence: 0.9,
+  boundingBox: { x, y, width, height: 16 }
+});
+
+describe('groupCardRegions', () => {
+  it('splits a binder page into columns and rows of cards', () => {
+    const regions = groupCardRegions([
+      word('Charizard', 20, 20), word('4/102', 120, 260),
+      word('Blastoise', 320, 20), word('2/102', 420, 260),
+      word('Pikachu', 20, 420), word('58/102', 120, 660)
+    ]);
+
+    expect(regions.map(region => region.results.map(result => result.text))).toEqual([
+      ['Charizard', '4/102'],
+      ['Blastoise', '2/102'],
+      ['Pikachu', '58/102']
+    ]);
+  });
+
+  it('pads each region around its text', () => {
+    const [region] = groupCardRegions([word('Charizard', 20, 20), word('4/102', 120, 260)]);
+    expect(region.boundingBox).toEqual({ x: 4, y: 4, width: 192, height: 288 });
+  });
+
+  it('keeps words without positions together', () => {
+    const regions = groupCardRegions([
+      { text: 'Charizard', confidence: 0.9 },
+      word('4/102', 120, 260)
+    ]);
+    expect(regions).toHaveLength(1);
+    expect(regions[0].results).toHaveLength(2);
+  });
+
+  it('returns nothing for no words', () => {
+    expect(groupCardRegions([])).toEqual([]);
+  });
+});
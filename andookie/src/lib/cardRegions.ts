@@ -0,0 +1,131 @@
+// src/lib/cardRegions.ts
+
+import { BoundingBox, OCRResult } from './types';
+
+// The OCR words that belong to one physical card in a photo
+export interface CardRegion {
+  boundingBox: BoundingBox;
+  results: OCRResult[];
+}
+
+// "4/102", "043/185", "#58" (but not HP or damage numbers)
+export const COLLECTOR_NUMBER = /^(#\d{1,3}|\d{1,3}\/\d{1,3})$/;
+
+// Horizontal gap, in text heights, wide enough to fall between two cards
+const COLUMN_GAP = 2;
+
+// How far under its collector number, in text heights, a card's last line
+// (illustrator, copyright) can sit
+const NUMBER_LINE_SLACK = 1.5;
+
+// Margin added around the text, in text heights, so a crop shows the whole card
+const REGION_PADDING = 1;
+
+type Box = { result: OCRResult; box: BoundingBox; order: number };
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+const isCollectorNumber = (box: Box): boolean => COLLECTOR_NUMBER.test(box.result.text.trim());
+
+const union = (boxes: BoundingBox[], padding: number): BoundingBox => {
+  const left = Math.max(0, Math.min(...boxes.map(box => box.x)) - padding);
+  const top = Math.max(0, Math.min(...boxes.map(box => box.y)) - padding);
+  const right = Math.max(...boxes.map(box => box.x + box.width)) + padding;
+  const bottom = Math.max(...boxes.map(box => box.y + box.height)) + padding;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Cards side by side leave a strip no text crosses, so split wherever the
+ * text's horizontal extent has a wide enough gap
+ */
+const splitColumns = (boxes: Box[], gap: number): Box[][] => {
+  const columns: Box[][] = [];
+  let right = -Infinity;
+
+  for (const box of [...boxes].sort((a, b) => a.box.x - b.box.x)) {
+    if (columns.length === 0 || box.box.x > right + gap) {
+      columns.push([]);
+    }
+    columns[columns.length - 1].push(box);
+    right = Math.max(right, box.box.x + box.box.width);
+  }
+
+  // A strip without a collector number is part of a card, not a card of its
+  // own (e.g. a name and HP with nothing printed between them)
+  const anchored = columns.filter(column => column.some(isCollectorNumber));
+  if (anchored.length === 0) {
+    return [boxes];
+  }
+
+  const centre = (column: Box[]) => median(column.map(box => box.box.x + box.box.width / 2));
+  for (const column of columns.filter(column => !anchored.includes(column))) {
+    const nearest = anchored.reduce((best, candidate) =>
+      Math.abs(centre(candidate) - centre(column)) < Math.abs(centre(best) - centre(column)) ? candidate : best
+    );
+    nearest.push(...column);
+  }
+  return anchored;
+};
+
+/**
+ * The collector number is printed at the bottom of a card, so going down a
+ * column, a new card starts with the first line below the last card's number
+ */
+const splitRows = (column: Box[], slack: number): Box[][] => {
+  const rows: Box[][] = [[]];
+  let cardBottom: number | null = null;
+
+  for (const box of [...column].sort((a, b) => a.box.y - b.box.y)) {
+    if (cardBottom !== null && box.box.y > cardBottom) {
+      rows.push([]);
+      cardBottom = null;
+    }
+    rows[rows.length - 1].push(box);
+    if (isCollectorNumber(box)) {
+      cardBottom = box.box.y + box.box.height + slack;
+    }
+  }
+  return rows;
+};
+
+/**
+ * Group OCR words into one region per card, for photos of several cards at
+ * once (e.g. a binder page). Cards are assumed to be laid out upright in
+ * columns; words without a position all go into a single region.
+ */
+export const groupCardRegions = (results: OCRResult[]): CardRegion[] => {
+  if (results.length === 0) {
+    return [];
+  }
+
+  const boxes: Box[] = results
+    .map((result, order) => ({ result, box: result.boundingBox!, order }))
+    .filter(({ box }) => box && box.width > 0 && box.height > 0);
+
+  // Can't place words without a position, so don't try to split them up
+  if (boxes.length < results.length) {
+    return [{
+      boundingBox: boxes.length > 0 ? union(boxes.map(({ box }) => box), 0) : { x: 0, y: 0, width: 0, height: 0 },
+      results
+    }];
+  }
+
+  const textHeight = median(boxes.map(({ box }) => box.height));
+
+  return splitColumns(boxes, COLUMN_GAP * textHeight)
+    .flatMap(column => splitRows(column, NUMBER_LINE_SLACK * textHeight))
+    .map(region => ({
+      boundingBox: union(region.map(({ box }) => box), REGION_PADDING * textHeight),
+      // Back in the OCR's reading order
+      results: region.sort((a, b) => a.order - b.order).map(({ result }) => result)
+    }))
+    // Left to right, then top to bottom, the way a seller reads a binder page
+    .sort((a, b) => {
+      const rowGap = a.boundingBox.y - b.boundingBox.y;
+      return Math.abs(rowGap) > COLUMN_GAP * textHeight ? rowGap : a.boundingBox.x - b.boundingBox.x;
+    });
+};
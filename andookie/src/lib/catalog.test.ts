@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { applyCatalogUpdate, toCatalogEntry } from './catalog';
+import { CardDatabaseEntry } from './types';
+
+const record = { name: 'Charizard', set: 'Base Set', setCode: 'bs', number: '4/102', marketPrice: '450' };
+
+describe('toCatalogEntry', () => {
+  it('fills in the id, conditions and date a dump leaves out', () => {
+    const entry = toCatalogEntry(record);
+    expect(entry).toMatchObject({ id: 'bs-4', setCode: 'BS', marketPrice: 450, rarity: 'Unknown' });
+    expect(entry.variants).toContain('Near Mint');
+    expect(entry.lastUpdated).toBeInstanceOf(Date);
+  });
+
+  it('reads variants and dates from CSV columns', () => {
+    const entry = toCatalogEntry({ ...record, variants: 'Near Mint | Lightly Played', lastUpdated: '2024-03-01' });
+    expect(entry.variants).toEqual(['Near Mint', 'Lightly Played']);
+    expect(entry.lastUpdated.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('rejects unknown variants and unreadable dates', () => {
+    expect(() => toCatalogEntry({ ...record, variants: 'Near Mint|Shiny' })).toThrow(/unknown variant "Shiny"/);
+    expect(() => toCatalogEntry({ ...record, variants: 'toString' })).toThrow(/unknown variant/);
+    expect(() => toCatalogEntry({ ...record, lastUpdated: 'last week' })).toThrow(/invalid lastUpdated/);
+  });
+});
+
+describe('applyCatalogUpdate', () => {
+  const lastUpdated = new Date('2024-01-01T00:00:00Z');
+  const entry: CardDatabaseEntry = {
+    ...toCatalogEntry({ ...record, variants: 'Near Mint|Lightly Played', lastUpdated: lastUpdated.toISOString() }),
+    priceData: { marketPrice: 450, lowPrice: 400, midPrice: 440, highPrice: 520, lastUpdated, source: 'tcgplayer' }
+  };
+
+  it('keeps variants in condition order and ignores a reshuffle', () => {
+    expect(applyCatalogUpdate(entry, { variants: ['Lightly Played', 'Near Mint'] }).changes).toEqual([]);
+
+    const { entry: updated, changes } = applyCatalogUpdate(entry, { variants: ['Heavily Played', 'Near Mint'] });
+    expect(updated.variants).toEqual(['Near Mint', 'Heavily Played']);
+    expect(changes).toEqual([{ field: 'variants', from: ['Near Mint', 'Lightly Played'], to: ['Near Mint', 'Heavily Played'] }]);
+  });
+
+  it('refuses an empty or unknown variant list', () => {
+    expect(() => applyCatalogUpdate(entry, { variants: [] })).toThrow(/one or more known conditions/);
+    expect(() => applyCatalogUpdate(entry, { variants: ['Shiny' as never] })).toThrow(/one or more known conditions/);
+  });
+
+  it('turns a market price edit into a manual price over the feed', () => {
+    const { entry: updated, changes } = applyCatalogUpdate(entry, { marketPrice: 475.555 });
+    expect(updated.marketPrice).toBe(475.56);
+    expect(updated.priceData).toMatchObject({ marketPrice: 475.56, lowPrice: 400, source: 'manual' });
+    expect(updated.lastUpdated.getTime()).toBeGreaterThan(lastUpdated.getTime());
+    expect(changes).toEqual([
+      { field: 'marketPrice', from: 450, to: 475.56 },
+      { field: 'source', from: 'tcgplayer', to: 'manual' }
+    ]);
+  });
+
+  it('overrides every price at once and clears the override again', () => {
+    const prices = { marketPrice: 300, lowPrice: 250, midPrice: 290, highPrice: 350 };
+    const { entry: overridden, changes } = applyCatalogUpdate(entry, { priceOverride: prices });
+    expect(overridden.priceData).toMatchObject({ ...prices, source: 'manual' });
+    expect(changes.map(change => change.field)).toEqual(['marketPrice', 'lowPrice', 'midPrice', 'highPrice', 'source']);
+
+    const cleared = applyCatalogUpdate(overridden, { clearOverride: true });
+    expect(cleared.entry.priceData).toBeUndefined();
+    expect(cleared.changes).toEqual([{ field: 'source', from: 'manual', to: 'feed' }]);
+  });
+
+  it('refuses negative prices and clearing a price that was never overridden', () => {
+    expect(() => applyCatalogUpdate(entry, { marketPrice: -1 })).toThrow(/zero or more/);
+    expect(() => applyCatalogUpdate(entry, { priceOverride: { marketPrice: 1, lowPrice: 1, midPrice: Number.NaN, highPrice: 1 } })).toThrow(/zero or more/);
+    expect(() => applyCatalogUpdate(entry, { clearOverride: true })).toThrow(/no manual price/);
+  });
+
+  it('leaves an entry with no changes untouched', () => {
+    const { entry: updated, changes } = applyCatalogUpdate(entry, { variants: ['Near Mint', 'Lightly Played'] });
+    expect(changes).toEqual([]);
+    expect(updated.lastUpdated).toEqual(lastUpdated);
+  });
+});
@@ -0,0 +1,321 @@
+// src/lib/catalog.ts
+
+import path from 'path';
+import {
+  AuditChange,
+  CardCondition,
+  CardDatabaseEntry,
+  CatalogEntryUpdate,
+  CatalogSearchQuery,
+  PriceData,
+  CONDITION_MULTIPLIERS
+} from './types';
+import { ValidationError, isCardCondition } from './errors';
+import { getPriceData } from './pricing';
+import { DATA_DIR, readJsonFile, writeJsonFile } from './storage';
+
+export interface CardRepository {
+  list(): Promise<CardDatabaseEntry[]>;
+  findById(id: string): Promise<CardDatabaseEntry | null>;
+  search(query: CatalogSearchQuery): Promise<CardDatabaseEntry[]>;
+  upsert(entry: CardDatabaseEntry): Promise<CardDatabaseEntry>;
+  upsertMany(entries: CardDatabaseEntry[]): Promise<number>;
+  // Re-read, check and replace entries with no other change in between
+  updateMany(ids: string[], change: (current: CardDatabaseEntry) => CardDatabaseEntry): Promise<CardDatabaseEntry[]>;
+}
+
+// Shape of an entry once it has been through JSON.stringify
+type StoredCardEntry = Omit<CardDatabaseEntry, 'lastUpdated' | 'priceData'> & {
+  lastUpdated: string;
+  priceData?: Omit<PriceData, 'lastUpdated'> & { lastUpdated: string };
+};
+
+export const DEFAULT_CATALOG_PATH = path.join(DATA_DIR, 'catalog.json');
+
+/**
+ * Card catalog persisted as a JSON file on local disk. The whole file is
+ * loaded into memory on first use and rewritten on every change.
+ */
+export class FileCardRepository implements CardRepository {
+  private filePath: string;
+  private entries: Promise<Map<string, CardDatabaseEntry>> | null = null;
+
+  constructor(filePath: string = DEFAULT_CATALOG_PATH) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<CardDatabaseEntry[]> {
+    const entries = await this.load();
+    return Array.from(entries.values());
+  }
+
+  async findById(id: string): Promise<CardDatabaseEntry | null> {
+    const entries = await this.load();
+    return entries.get(id) || null;
+  }
+
+  async search(query: CatalogSearchQuery): Promise<CardDatabaseEntry[]> {
+    const name = query.name?.toLowerCase().trim();
+    const set = query.set?.toLowerCase().trim();
+    const number = query.number?.trim();
+
+    const results = (await this.list()).filter(entry => {
+      if (name && !entry.name.toLowerCase().includes(name)) return false;
+      if (set && !entry.set.toLowerCase().includes(set) && entry.setCode.toLowerCase() !== set) return false;
+      if (number && entry.number !== number && entry.number.split('/')[0] !== number) return false;
+      return true;
+    });
+
+    return query.limit ? results.slice(0, query.limit) : results;
+  }
+
+  async upsert(entry: CardDatabaseEntry): Promise<CardDatabaseEntry> {
+    await this.upsertMany([entry]);
+    return entry;
+  }
+
+  async upsertMany(newEntries: CardDatabaseEntry[]): Promise<number> {
+    const entries = await this.load();
+    for (const entry of newEntries) {
+      entries.set(entry.id, entry);
+    }
+    await this.save(entries);
+    return newEntries.length;
+  }
+
+  /**
+   * Change entries based on their current state, without yielding to other
+   * requests in between, so nothing saved since the caller last read them
+   * is lost. Entries `change` hands back as they were aren't written; the
+   * ones that were are returned.
+   */
+  async updateMany(
+    ids: string[],
+    change: (current: CardDatabaseEntry) => CardDatabaseEntry
+  ): Promise<CardDatabaseEntry[]> {
+    const entries = await this.load();
+    const changed: { previous: CardDatabaseEntry; updated: CardDatabaseEntry }[] = [];
+
+    for (const id of ids) {
+      const current = entries.get(id);
+      if (!current) continue;
+      const updated = change(current);
+      if (updated !== current) {
+        entries.set(id, updated);
+        changed.push({ previous: current, updated });
+      }
+    }
+
+    if (changed.length === 0) {
+      return [];
+    }
+
+    try {
+      await this.save(entries);
+    } catch (error) {
+      // Not stored, so put back whatever no one has changed since
+      for (const { previous, updated } of changed) {
+        if (entries.get(previous.id) === updated) entries.set(previous.id, previous);
+      }
+      throw error;
+    }
+    return changed.map(({ updated }) => updated);
+  }
+
+  // Concurrent first calls share one read, so no caller ends up changing a
+  // copy of the catalog that another has since replaced
+  private load(): Promise<Map<string, CardDatabaseEntry>> {
+    if (!this.entries) {
+      // A missing file is just an empty catalog
+      this.entries = readJsonFile<StoredCardEntry[]>(this.filePath, [])
+        .then(stored => new Map(stored.map(entry => [entry.id, {
+          ...entry,
+          lastUpdated: new Date(entry.lastUpdated),
+          priceData: entry.priceData && { ...entry.priceData, lastUpdated: new Date(entry.priceData.lastUpdated) }
+        }])))
+        .catch(error => {
+          this.entries = null;
+          throw error;
+        });
+    }
+    return this.entries;
+  }
+
+  private async save(entries: Map<string, CardDatabaseEntry>): Promise<void> {
+    const sorted = Array.from(entries.values())
+      .sort((a, b) => a.set.localeCompare(b.set) || collectorNumber(a) - collectorNumber(b));
+
+    await writeJsonFile(this.filePath, sorted);
+  }
+}
+
+const collectorNumber = (entry: CardDatabaseEntry): number => {
+  return parseInt(entry.number.split('/')[0], 10) || 0;
+};
+
+// Raw catalog record as found in a JSON or CSV dump
+export interface CatalogImportRecord {
+  id?: string;
+  name?: string;
+  set?: string;
+  setCode?: string;
+  number?: string;
+  rarity?: string;
+  marketPrice?: number | string;
+  variants?: CardCondition[] | string;
+  imageUrl?: string;
+  lastUpdated?: string;
+}
+
+const ALL_CONDITIONS = Object.keys(CONDITION_MULTIPLIERS) as CardCondition[];
+
+export const buildCatalogId = (setCode: string, number: string): string => {
+  const collector = number.split('/')[0].replace(/^0+(?=\w)/, '');
+  return `${setCode.toLowerCase()}-${collector.toLowerCase()}`;
+};
+
+/**
+ * Turn an imported record into a catalog entry, filling in defaults and
+ * rejecting records that are missing the fields we key on
+ */
+export const toCatalogEntry = (record: CatalogImportRecord): CardDatabaseEntry => {
+  const name = record.name?.trim();
+  const set = record.set?.trim();
+  const setCode = record.setCode?.trim().toUpperCase();
+  const number = record.number?.trim();
+  const marketPrice = Number(record.marketPrice);
+
+  if (!name) throw new ValidationError('Catalog record is missing a name', 'name');
+  if (!set || !setCode) throw new ValidationError(`Catalog record "${name}" is missing its set`, 'set');
+  if (!number) throw new ValidationError(`Catalog record "${name}" is missing its number`, 'number');
+  if (!Number.isFinite(marketPrice) || marketPrice < 0) {
+    throw new ValidationError(`Catalog record "${name}" has an invalid market price`, 'marketPrice');
+  }
+
+  const variants: unknown[] = typeof record.variants === 'string'
+    ? record.variants.split('|').map(v => v.trim()).filter(Boolean)
+    : Array.isArray(record.variants) ? record.variants : [];
+  const unknownVariant = variants.find(variant => !isCardCondition(variant));
+  if (unknownVariant !== undefined) {
+    throw new ValidationError(`Catalog record "${name}" has an unknown variant "${unknownVariant}"`, 'variants');
+  }
+
+  const lastUpdated = record.lastUpdated ? new Date(record.lastUpdated) : new Date();
+  if (Number.isNaN(lastUpdated.getTime())) {
+    throw new ValidationError(`Catalog record "${name}" has an invalid lastUpdated date`, 'lastUpdated');
+  }
+
+  return {
+    id: record.id?.trim() || buildCatalogId(setCode, number),
+    name,
+    set,
+    setCode,
+    number,
+    rarity: record.rarity?.trim() || 'Unknown',
+    marketPrice: Math.round(marketPrice * 100) / 100,
+    lastUpdated,
+    variants: variants.length > 0 ? variants as CardCondition[] : ALL_CONDITIONS,
+    imageUrl: record.imageUrl?.trim() || undefined
+  };
+};
+
+const isPrice = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+};
+
+const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Apply a staff edit to a catalog entry, returning the updated entry and
+ * what changed. Price edits become a manual PriceData so they win over the
+ * feed price the pricing service would otherwise use.
+ */
+export const applyCatalogUpdate = (
+  entry: CardDatabaseEntry,
+  update: CatalogEntryUpdate
+): { entry: CardDatabaseEntry; changes: AuditChange[] } => {
+  const changes: AuditChange[] = [];
+  const now = new Date();
+  let updated = { ...entry };
+
+  if (update.variants !== undefined) {
+    const variants = Array.isArray(update.variants) ? update.variants : [];
+    if (variants.length === 0 || variants.some(variant => !isCardCondition(variant))) {
+      throw new ValidationError('Variants must be one or more known conditions', 'variants');
+    }
+    // Keep the scale's order so diffs don't flag a reshuffle as a change
+    const ordered = ALL_CONDITIONS.filter(condition => variants.includes(condition));
+    if (ordered.join('|') !== entry.variants.join('|')) {
+      changes.push({ field: 'variants', from: entry.variants, to: ordered });
+      updated.variants = ordered;
+    }
+  }
+
+  let priceData: PriceData | undefined;
+
+  if (update.clearOverride) {
+    if (entry.priceData?.source !== 'manual') {
+      throw new ValidationError('This card has no manual price to clear', 'clearOverride');
+    }
+    // The entry falls back to its plain market price until the next refresh
+    changes.push({ field: 'source', from: 'manual', to: 'feed' });
+    const { priceData: _cleared, ...rest } = updated;
+    updated = rest;
+  } else if (update.priceOverride !== undefined) {
+    const { marketPrice, lowPrice, midPrice, highPrice } = update.priceOverride;
+    if (![marketPrice, lowPrice, midPrice, highPrice].every(isPrice)) {
+      throw new ValidationError('Override prices must be zero or more', 'priceOverride');
+    }
+    priceData = {
+      marketPrice: roundPrice(marketPrice),
+      lowPrice: roundPrice(lowPrice),
+      midPrice: roundPrice(midPrice),
+      highPrice: roundPrice(highPrice),
+      lastUpdated: now,
+      source: 'manual'
+    };
+  } else if (update.marketPrice !== undefined) {
+    if (!isPrice(update.marketPrice)) {
+      throw new ValidationError('Market price must be zero or more', 'marketPrice');
+    }
+    const marketPrice = roundPrice(update.marketPrice);
+    // Without a feed the market price stands in for low/mid/high too
+    priceData = entry.priceData
+      ? { ...entry.priceData, marketPrice, lastUpdated: now, source: 'manual' }
+      : { marketPrice, lowPrice: marketPrice, midPrice: marketPrice, highPrice: marketPrice, lastUpdated: now, source: 'manual' };
+  }
+
+  if (priceData) {
+    const previous = getPriceData(entry);
+    const fields = ['marketPrice', 'lowPrice', 'midPrice', 'highPrice'] as const;
+    for (const field of fields) {
+      if (previous[field] !== priceData[field]) {
+        changes.push({ field, from: previous[field], to: priceData[field] });
+      }
+    }
+    if (entry.priceData && previous.source !== 'manual') {
+      changes.push({ field: 'source', from: previous.source, to: 'manual' });
+    }
+    updated = { ...updated, marketPrice: priceData.marketPrice, priceData };
+  }
+
+  if (changes.length > 0) {
+    updated.lastUpdated = now;
+  }
+
+  return { entry: updated, changes };
+};
+
+let repository: CardRepository | null = null;
+
+export const getCardRepository = (): CardRepository => {
+  if (!repository) {
+    repository = new FileCardRepository(process.env.CARD_CATALOG_PATH || DEFAULT_CATALOG_PATH);
+  }
+  return repository;
+};
+
+// Swap the repository implementation (e.g. for scripts pointing at another file)
+export const setCardRepository = (newRepository: CardRepository): void => {
+  repository = newRepository;
+};
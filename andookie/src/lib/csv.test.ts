@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DelimitedParser, detectDelimiter, parseCSV, parseDelimited, parseDelimitedStream, toCSVLine } from './csv';
+
+const streamOf = (...chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+};
+
+describe('parseDelimited', () => {
+  it('honours quoted delimiters, escaped quotes and line breaks', () => {
+    const text = 'name,note\r\n"Charizard, Holo","said ""mint""\nreally"\n\nPikachu,';
+    expect(parseDelimited(text)).toEqual([
+      ['name', 'note'],
+      ['Charizard, Holo', 'said "mint"\nreally'],
+      ['Pikachu', '']
+    ]);
+  });
+
+  it('reads a quote inside an unquoted field as a character', () => {
+    expect(parseDelimited('name,note,qty\nBinder,12" page,1\n')).toEqual([
+      ['name', 'note', 'qty'],
+      ['Binder', '12" page', '1']
+    ]);
+  });
+
+  it('splits on the delimiter it is given', () => {
+    expect(parseDelimited('a\tb;c\n', '\t')).toEqual([['a', 'b;c']]);
+  });
+});
+
+describe('DelimitedParser', () => {
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'a,"b ""q"""\r\n"c\r\nd",e\r\n';
+    const whole = parseDelimited(text);
+
+    const parser = new DelimitedParser();
+    const rows = [...text].flatMap(char => parser.push(char));
+    expect([...rows, ...parser.end()]).toEqual(whole);
+  });
+});
+
+describe('parseDelimitedStream', () => {
+  it('drops a byte order mark and reads rows split across chunks', async () => {
+    const rows: string[][] = [];
+    for await (const row of parseDelimitedStream(streamOf('\uFEFFname,qty\nChar', 'izard,2\n'))) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([['name', 'qty'], ['Charizard', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent delimiter in the header', () => {
+    expect(detectDelimiter('name\tset\tnumber')).toBe('\t');
+    expect(detectDelimiter('name;set;price,eur')).toBe(';');
+    expect(detectDelimiter('name')).toBe(',');
+  });
+});
+
+describe('parseCSV', () => {
+  it('keys rows by trimmed, lowercased header', () => {
+    expect(parseCSV(' Name ,Qty\nCharizard, 2 \nPikachu')).toEqual([
+      { name: 'Charizard', qty: '2' },
+      { name: 'Pikachu', qty: '' }
+    ]);
+  });
+});
+
+describe('toCSVLine', () => {
+  it('quotes fields that need it', () => {
+    expect(toCSVLine(['Charizard, Holo', 'say "hi"', 4.5])).toBe('"Charizard, Holo","say ""hi""",4.5');
+  });
+
+  it('defuses text a spreadsheet would run as a formula', () => {
+    expect(toCSVLine(['=HYPERLINK("x")', -3])).toBe(`"'=HYPERLINK(""x"")",-3`);
+  });
+});
@@ -0,0 +1,177 @@
+// src/lib/csv.ts
+
+export type CSVRow = Record<string, string>;
+
+/**
+ * Incremental delimited-text parser: feed it text in chunks of any size and
+ * it hands back each row as soon as the row is complete. Honours
+ * double-quoted fields, which may contain delimiters, escaped quotes and
+ * newlines. As in RFC 4180, only a quote opening a field starts one; a quote
+ * further in (12" binder) is just a character.
+ */
+export class DelimitedParser {
+  private delimiter: string;
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  // Last character of a chunk that depends on the next one
+  private pending = '';
+
+  constructor(delimiter: string = ',') {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): string[][] {
+    const text = this.pending + chunk;
+    this.pending = '';
+    const rows: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // Can't tell a closing quote from an escaped one, or \r from \r\n, yet
+      if (i === text.length - 1 && (this.inQuotes ? char === '"' : char === '\r')) {
+        this.pending = char;
+        break;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          this.field += '"';
+          i++;
+        } else if (char === '"') {
+          this.inQuotes = false;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        this.endRow(rows);
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  // Flush whatever is left once the input is exhausted
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.pending === '"') {
+      this.inQuotes = false;
+    }
+    this.pending = '';
+
+    if (this.field || this.row.length > 0) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field);
+    // Drop blank lines
+    if (this.row.some(value => value.trim() !== '')) {
+      rows.push(this.row);
+    }
+    this.row = [];
+    this.field = '';
+  }
+}
+
+/**
+ * Split delimited text into rows of fields
+ */
+export const parseDelimited = (text: string, delimiter: string = ','): string[][] => {
+  const parser = new DelimitedParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+/**
+ * Parse a delimited byte stream row by row without holding the whole file
+ * in memory. A leading byte order mark is dropped.
+ */
+export async function* parseDelimitedStream(
+  stream: ReadableStream<Uint8Array>,
+  delimiter: string = ','
+): AsyncGenerator<string[]> {
+  const parser = new DelimitedParser(delimiter);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let first = true;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let text = decoder.decode(value, { stream: true });
+      if (first) {
+        text = text.replace(/^\uFEFF/, '');
+        first = false;
+      }
+      yield* parser.push(text);
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.end();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Guess the delimiter from a header line: tabs for TSV, semicolons for
+ * spreadsheets saved in locales that use a decimal comma, commas otherwise
+ */
+export const detectDelimiter = (headerLine: string): ',' | '\t' | ';' => {
+  const count = (delimiter: string) => headerLine.split(delimiter).length - 1;
+  const candidates: Array<',' | '\t' | ';'> = ['\t', ';', ','];
+  return candidates.reduce((best, delimiter) => count(delimiter) > count(best) ? delimiter : best, ',');
+};
+
+/**
+ * Parse delimited text whose first row is a header into keyed rows.
+ * Header names are trimmed and lowercased.
+ */
+export const parseCSV = (text: string, delimiter: string = ','): CSVRow[] => {
+  const [header, ...rows] = parseDelimited(text.replace(/^\uFEFF/, ''), delimiter);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().toLowerCase());
+
+  return rows.map(values => toCSVRow(columns, values));
+};
+
+export const toCSVRow = (columns: string[], values: string[]): CSVRow => {
+  const row: CSVRow = {};
+  columns.forEach((column, index) => {
+    row[column] = (values[index] ?? '').trim();
+  });
+  return row;
+};
+
+/**
+ * Serialize one row of values, quoting fields that hold the delimiter,
+ * quotes or line breaks. Text that a spreadsheet would run as a formula is
+ * prefixed with an apostrophe.
+ */
+export const toCSVLine = (values: Array<string | number>, delimiter: string = ','): string => {
+  return values.map(value => {
+    let field = String(value);
+    if (typeof value === 'string' && /^[=+\-@]/.test(field)) {
+      field = `'${field}`;
+    }
+    return /["\r\n]/.test(field) || field.includes(delimiter)
+      ? `"${field.replace(/"/g, '""')}"`
+      : field;
+  }).join(delimiter);
+};
@@ -1,6 +1,6 @@
 // src/lib/errors.ts
 
-import { ErrorCode, ErrorDetails } from './types';
+import { CardCondition, CustomerInfo, ErrorCode, ErrorDetails, Offer, CONDITION_MULTIPLIERS } from './types';
 
 export class AppError extends Error {
   public readonly code: ErrorCode;
@@ -62,6 +62,12 @@ export class CardNotFoundError extends AppError {
   }
 }
 
+export class OrderNotFoundError extends AppError {
+  constructor(orderId: string) {
+    super(`Order not found: ${orderId}`, ErrorCode.ORDER_NOT_FOUND, 404, true);
+  }
+}
+
 export class InvalidImageError extends AppError {
   constructor(message: string) {
     super(message, ErrorCode.INVALID_IMAGE, 400, true);
@@ -74,6 +80,21 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, ErrorCode.UNAUTHORIZED, 401, true);
+  }
+}
+
+export class OfferExpiredError extends AppError {
+  public readonly requote: Offer;
+
+  constructor(requote: Offer) {
+    super('This offer has expired and prices have changed. Please review your updated offer.', ErrorCode.OFFER_EXPIRED, 409, true, 'offerId');
+    this.requote = requote;
+  }
+}
+
 // Error handler utilities
 export const handleError = (error: unknown): ErrorDetails => {
   if (error instanceof AppError) {
@@ -109,10 +130,12 @@ export const getUserFriendlyMessage = (error: ErrorDetails): string => {
     [ErrorCode.CARD_NOT_FOUND]: 'We couldn\'t find that card in our database. Please check the spelling.',
     [ErrorCode.INVALID_IMAGE]: 'The image format is not supported. Please upload JPG, PNG, or WebP files.',
     [ErrorCode.RATE_LIMITED]: 'Too many requests. Please wait a moment and try again.',
-    [ErrorCode.UNAUTHORIZED]: 'You don\'t have permission to perform this action.'
+    [ErrorCode.UNAUTHORIZED]: 'You don\'t have permission to perform this action.',
+    [ErrorCode.OFFER_EXPIRED]: 'Your offer has expired. Please review your updated offer.',
+    [ErrorCode.ORDER_NOT_FOUND]: 'We couldn\'t find that order. Please check the link you used.'
   };
   
-  return friendlyMessages[error.code] || error.message;
+  return friendlyMessages[error.code as ErrorCode] || error.message;
 };
 
 // Validation utilities
@@ -126,6 +149,34 @@ export const validateZipCode = (zipCode: string): boolean => {
   return zipRegex.test(zipCode);
 };
 
+// Own keys only: `in` would also accept "constructor", "toString" and friends
+export const isCardCondition = (value: unknown): value is CardCondition => {
+  return typeof value === 'string' && Object.hasOwn(CONDITION_MULTIPLIERS, value);
+};
+
+export const validateCustomerInfo = (customerInfo?: CustomerInfo): void => {
+  if (!customerInfo) {
+    throw new ValidationError('Customer information is required', 'customerInfo');
+  }
+  
+  if (!customerInfo.name || customerInfo.name.trim().length === 0) {
+    throw new ValidationError('Name is required', 'name');
+  }
+  
+  if (!customerInfo.email || !validateEmail(customerInfo.email.trim())) {
+    throw new ValidationError('Please enter a valid email address', 'email');
+  }
+  
+  const address = customerInfo.address;
+  if (!address || !address.street?.trim() || !address.city?.trim() || !address.state?.trim()) {
+    throw new ValidationError('A complete shipping address is required', 'address');
+  }
+  
+  if (!validateZipCode(address.zipCode?.trim() || '')) {
+    throw new ValidationError('Please enter a valid ZIP code', 'zipCode');
+  }
+};
+
 export const validateImageFile = (file: File): void => {
   const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
   const maxSize = 10 * 1024 * 1024; // 10MB
@@ -177,7 +228,7 @@ export const retryWithBackoff = async <T>(
 };
 
 // Logging utility (can be extended with external logging service)
-export const logError = (error: Error, context?: Record<string, any>): void => {
+export const logError = (error: Error, context?: Record<string, unknown>): void => {
   console.error('Error occurred:', {
     message: error.message,
     stack: error.stack,
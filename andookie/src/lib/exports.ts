@@ -0,0 +1,148 @@
+// src/lib/exports.ts
+
+import { Card, Offer, OrderCard, PublicOrder } from './types';
+import { toCSVLine } from './csv';
+import { CARD_OUTCOME_LABELS, ORDER_STATUS_LABELS } from './orderStatus';
+import { code39Svg } from './barcode';
+import { escapeHtml, getCardTotals } from './utils';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: string;
+}
+
+const CARD_COLUMNS = [
+  'Name', 'Set', 'Number', 'Condition', 'Quantity', 'Language', 'Foil',
+  'Market Price', 'Offer Each', 'Offer Total'
+];
+
+const ORDER_CARD_COLUMNS = [...CARD_COLUMNS, 'Outcome', 'Graded Condition', 'Adjusted Offer Each'];
+
+const cardValues = (card: Card): Array<string | number> => [
+  card.name,
+  card.set,
+  card.number,
+  card.condition,
+  card.quantity,
+  card.language || '',
+  card.foil ? 'Yes' : '',
+  card.marketPrice.toFixed(2),
+  card.ourOffer.toFixed(2),
+  (card.ourOffer * card.quantity).toFixed(2)
+];
+
+const orderCardValues = (card: OrderCard): Array<string | number> => [
+  ...cardValues(card),
+  CARD_OUTCOME_LABELS[card.outcome],
+  card.gradedCondition || '',
+  card.adjustedOffer !== undefined ? card.adjustedOffer.toFixed(2) : ''
+];
+
+// CRLF line endings, which every spreadsheet app opens cleanly
+const toCSV = (columns: string[], rows: Array<Array<string | number>>): string => {
+  return [columns, ...rows].map(row => toCSVLine(row)).join('\r\n') + '\r\n';
+};
+
+const toExportFile = (baseName: string, format: ExportFormat, csv: () => string, json: unknown): ExportFile => {
+  return format === 'csv'
+    ? { fileName: `${baseName}.csv`, contentType: 'text/csv; charset=utf-8', body: csv() }
+    : { fileName: `${baseName}.json`, contentType: 'application/json; charset=utf-8', body: JSON.stringify(json, null, 2) };
+};
+
+export const exportOffer = (offer: Offer, format: ExportFormat): ExportFile => {
+  return toExportFile(
+    `offer-${offer.id}`,
+    format,
+    () => toCSV(CARD_COLUMNS, offer.cards.map(cardValues)),
+    offer
+  );
+};
+
+export const exportOrder = (order: PublicOrder, format: ExportFormat): ExportFile => {
+  return toExportFile(
+    `order-${order.id}`,
+    format,
+    () => toCSV(ORDER_CARD_COLUMNS, order.cards.map(orderCardValues)),
+    order
+  );
+};
+
+/**
+ * Printable slip the seller packs in the box with their cards. Intake scans
+ * the order id barcode to pull the order up and checks each card off the list.
+ * Printing to PDF from the browser gives the seller a copy to keep.
+ */
+export const renderPackingSlip = (order: PublicOrder): string => {
+  const totals = getCardTotals(order.cards);
+  const rows = order.cards.map(card => `
+        <tr>
+          <td class="check"></td>
+          <td>${escapeHtml(card.name)}${card.foil ? ' (foil)' : ''}</td>
+          <td>${escapeHtml(card.set)}</td>
+          <td>${escapeHtml(card.number)}</td>
+          <td>${escapeHtml(card.condition)}</td>
+          <td class="num">${card.quantity}</td>
+          <td class="num">$${card.ourOffer.toFixed(2)}</td>
+          <td class="num">$${(card.ourOffer * card.quantity).toFixed(2)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Packing slip ${escapeHtml(order.id)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 32px; color: #111; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #000; padding-bottom: 16px; }
+    h1 { font-size: 22px; margin: 0 0 8px; }
+    .order-id { font-family: monospace; font-size: 18px; font-weight: bold; letter-spacing: 2px; text-align: center; margin: 4px 0 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 13px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px 4px; text-align: left; }
+    th { border-bottom: 2px solid #000; }
+    .num { text-align: right; }
+    .check { width: 18px; border: 1px solid #000; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+    .note { font-size: 12px; color: #555; margin-top: 24px; }
+    @media print { .no-print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <p class="no-print"><button onclick="window.print()">Print or save as PDF</button></p>
+  <header>
+    <div>
+      <h1>Andookie Packing Slip</h1>
+      <p>${escapeHtml(order.customer.name)}<br>
+        ${escapeHtml(order.customer.city)}, ${escapeHtml(order.customer.state)}</p>
+      <p>Accepted ${order.createdAt.toLocaleDateString('en-US')} &middot; ${escapeHtml(ORDER_STATUS_LABELS[order.status])}<br>
+        Tracking ${escapeHtml(order.shippingLabel.trackingNumber)}</p>
+    </div>
+    <div>
+      ${code39Svg(order.id)}
+      <p class="order-id">${escapeHtml(order.id)}</p>
+    </div>
+  </header>
+  <table>
+    <thead>
+      <tr>
+        <th></th><th>Card</th><th>Set</th><th>Number</th><th>Condition</th>
+        <th class="num">Qty</th><th class="num">Offer each</th><th class="num">Offer</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr>
+        <td></td><td colspan="4">Total</td>
+        <td class="num">${totals.totalCards}</td><td></td>
+        <td class="num">$${order.totalOffer.toFixed(2)}</td>
+      </tr>
+    </tfoot>
+  </table>
+  <p class="note">Put this slip in the box with your cards. Offers are confirmed once we've graded the cards at intake.</p>
+</body>
+</html>`;
+};
@@ -0,0 +1,66 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { hammingDistance, perceptualHash } from './imageHash';
+
+// A card-sized picture: a few large shapes on a cream background
+const picture = (shapes: string): Promise<Buffer> => sharp(Buffer.from(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="252" height="352"><rect width="100%" height="100%" fill="#f0e8c0"/>${shapes}</svg>`
+)).png().toBuffer();
+
+const FIRE = '<circle cx="80" cy="100" r="60" fill="#c03010"/><rect x="140" y="200" width="100" height="140" fill="#303030"/>';
+const WATER = '<rect width="126" height="176" fill="#1040a0"/><rect x="126" y="176" width="126" height="176" fill="#1040a0"/>';
+
+describe('perceptualHash', () => {
+  it('gives 16 hex digits, the same for the same picture', async () => {
+    const hash = await perceptualHash(await picture(FIRE));
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await perceptualHash(await picture(FIRE))).toBe(hash);
+  });
+
+  it('barely changes for a smaller, compressed, brighter or blurred copy', async () => {
+    const original = await picture(FIRE);
+    const hash = await perceptualHash(original);
+    const copies = [
+      await sharp(original).resize(180).jpeg({ quality: 60 }).toBuffer(),
+      await sharp(original).modulate({ brightness: 1.15 }).png().toBuffer(),
+      await sharp(original).blur(2).png().toBuffer()
+    ];
+
+    for (const copy of copies) {
+      expect(hammingDistance(hash, await perceptualHash(copy))).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('tells different pictures apart', async () => {
+    const distance = hammingDistance(await perceptualHash(await picture(FIRE)), await perceptualHash(await picture(WATER)));
+    expect(distance).toBeGreaterThan(24);
+  });
+
+  it('hashes one region of a photo like the picture on its own', async () => {
+    const card = await picture(FIRE);
+    const photo = await sharp({ create: { width: 600, height: 500, channels: 3, background: '#808080' } })
+      .composite([{ input: card, left: 150, top: 70 }])
+      .png()
+      .toBuffer();
+
+    const region = await perceptualHash(photo, { x: 150, y: 70, width: 252, height: 352 });
+    expect(hammingDistance(region, await perceptualHash(card))).toBeLessThanOrEqual(2);
+    // A region hanging off the photo is cut to fit rather than failing
+    await expect(perceptualHash(photo, { x: 500, y: 400, width: 300, height: 300 })).resolves.toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('hashes raw pixels the same as the encoded picture', async () => {
+    const encoded = await picture(WATER);
+    const { data, info } = await sharp(encoded).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+    expect(await perceptualHash({ data, width: info.width, height: info.height })).toBe(await perceptualHash(encoded));
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits, and four per missing digit', () => {
+    expect(hammingDistance('00ff', '00ff')).toBe(0);
+    expect(hammingDistance('0000', '000f')).toBe(4);
+    expect(hammingDistance('8000', '0001')).toBe(2);
+    expect(hammingDistance('00', '0000')).toBe(8);
+  });
+});
@@ -0,0 +1,93 @@
+// src/lib/imageHash.ts
+
+import sharp from 'sharp';
+import { BoundingBox } from './types';
+import { RawImage } from './imagePreprocessing';
+
+// Pictures are shrunk to this many pixels square before hashing
+const SAMPLE_SIZE = 32;
+
+// Only the lowest frequencies (the overall layout of light and dark) go into
+// the hash, which is what survives glare, blur, resizing and print language
+const FREQUENCIES = 8;
+
+export const HASH_BITS = FREQUENCIES * FREQUENCIES;
+
+// cos((2x + 1) * u * pi / 2N) for every pixel x and kept frequency u
+const COSINES = Array.from({ length: FREQUENCIES }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE)))
+);
+
+const toSharp = async (image: Buffer | RawImage, region?: BoundingBox) => {
+  if (!Buffer.isBuffer(image)) {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 3 } });
+  }
+
+  const picture = sharp(image).rotate();
+  if (!region) {
+    return picture;
+  }
+
+  // The region is in the upright photo's pixels; keep it inside the photo
+  const { autoOrient } = await sharp(image).metadata();
+  const left = Math.max(0, Math.round(region.x));
+  const top = Math.max(0, Math.round(region.y));
+  const width = Math.min(autoOrient.width, Math.round(region.x + region.width)) - left;
+  const height = Math.min(autoOrient.height, Math.round(region.y + region.height)) - top;
+  return width > 0 && height > 0 ? picture.extract({ left, top, width, height }) : picture;
+};
+
+/**
+ * 64-bit perceptual hash (DCT "pHash") of a picture, or of one region of a
+ * photo, as 16 hex digits. Pictures that look alike have hashes that differ
+ * in few bits, however differently they were taken or compressed.
+ */
+export const perceptualHash = async (image: Buffer | RawImage, region?: BoundingBox): Promise<string> => {
+  const { data, info } = await (await toSharp(image, region))
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixel = (x: number, y: number) => data[(y * SAMPLE_SIZE + x) * info.channels];
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < FREQUENCIES; v++) {
+    for (let u = 0; u < FREQUENCIES; u++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum += pixel(x, y) * COSINES[u][x] * COSINES[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // Each bit says whether a frequency is above the median; the first
+  // coefficient is the average brightness and would skew the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  let hash = '';
+  for (let i = 0; i < HASH_BITS; i += 4) {
+    let digit = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      digit = (digit << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hash += digit.toString(16);
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let differing = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (differing) {
+      distance += differing & 1;
+      differing >>= 1;
+    }
+  }
+  return distance + 4 * Math.abs(a.length - b.length);
+};
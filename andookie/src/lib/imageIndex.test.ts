@@ -0,0 +1,123 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { FileCardRepository, setCardRepository, toCatalogEntry } from './catalog';
+import { perceptualHash } from './imageHash';
+import { CardImageIndex, combineEvidence, getImageHashRepository, indexCardImages, VisualMatch } from './imageIndex';
+import { CardDatabaseEntry, CardImageHash, MatchCandidate, MatchStrategy } from './types';
+
+const picture = (shapes: string): Promise<Buffer> => sharp(Buffer.from(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="252" height="352"><rect width="100%" height="100%" fill="#f0e8c0"/>${shapes}</svg>`
+)).png().toBuffer();
+
+const PICTURES = {
+  'bs-2': '<rect width="126" height="176" fill="#1040a0"/><rect x="126" y="176" width="126" height="176" fill="#1040a0"/>',
+  'bs-4': '<circle cx="80" cy="100" r="60" fill="#c03010"/><rect x="140" y="200" width="100" height="140" fill="#303030"/>',
+  'bs-15': '<rect y="150" width="252" height="60" fill="#202020"/><circle cx="200" cy="60" r="40" fill="#206020"/>'
+};
+
+const entry = (number: string, name: string, imageUrl?: string): CardDatabaseEntry =>
+  toCatalogEntry({ name, set: 'Base Set', setCode: 'BS', number, marketPrice: 10, imageUrl });
+
+const hashRecord = (id: string, imageUrl: string, hash: string): CardImageHash => ({ id, imageUrl, hash, indexedAt: new Date() });
+
+const textMatch = (matched: CardDatabaseEntry, score: number, strategy: MatchStrategy = 'name'): MatchCandidate => ({
+  entry: matched, score, nameScore: score, setScore: 1, numberScore: 0, strategy
+});
+
+const visualMatch = (matched: CardDatabaseEntry, distance: number): VisualMatch => ({
+  entry: matched, distance, similarity: Math.round((1 - distance / 22) * 1000) / 1000
+});
+
+describe('CardImageIndex', () => {
+  const blastoise = entry('2/102', 'Blastoise', '/cards/bs-2.png');
+  const charizard = entry('4/102', 'Charizard', '/cards/bs-4.png');
+  const venusaur = entry('15/102', 'Venusaur', '/cards/bs-15-new.png');
+
+  const index = new CardImageIndex([blastoise, charizard, venusaur, entry('58/102', 'Pikachu')], [
+    hashRecord('bs-2', '/cards/bs-2.png', 'ffff0000ffff0000'),
+    hashRecord('bs-4', '/cards/bs-4.png', 'ffff0000ffff000f'),
+    // Hashed from a picture the catalog no longer uses
+    hashRecord('bs-15', '/cards/bs-15.png', 'ffff0000ffff0000')
+  ]);
+
+  it('only holds entries hashed from their current picture', () => {
+    expect(index.size).toBe(2);
+  });
+
+  it('ranks entries by how close their picture is, dropping unrelated ones', () => {
+    expect(index.nearest('ffff0000ffff0000')).toEqual([
+      { entry: blastoise, distance: 0, similarity: 1 },
+      { entry: charizard, distance: 4, similarity: 0.818 }
+    ]);
+    expect(index.nearest('ffff0000ffff0000', 1)).toHaveLength(1);
+    expect(index.nearest('0000ffff0000ffff')).toEqual([]);
+  });
+});
+
+describe('combineEvidence', () => {
+  const blastoise = entry('2/102', 'Blastoise');
+  const charizard = entry('4/102', 'Charizard');
+
+  it('goes on the text alone, scaled by how well it was read', () => {
+    expect(combineEvidence([textMatch(charizard, 0.9, 'number')], 0.8, [])).toEqual({ entry: charizard, confidence: 0.72, strategy: 'number' });
+  });
+
+  it('raises the confidence when the picture agrees', () => {
+    const recognized = combineEvidence([textMatch(charizard, 0.8)], 0.75, [visualMatch(charizard, 11)]);
+    expect(recognized).toEqual({ entry: charizard, confidence: 0.8, strategy: 'name' });
+  });
+
+  it('lets a close picture outweigh a poorly read name', () => {
+    const recognized = combineEvidence([textMatch(blastoise, 0.6)], 0.4, [visualMatch(charizard, 1)]);
+    expect(recognized).toMatchObject({ entry: charizard, strategy: 'image' });
+  });
+
+  it('never ranks a text runner-up above the first choice', () => {
+    const recognized = combineEvidence([textMatch(charizard, 0.7, 'number'), textMatch(blastoise, 0.95)], 1, []);
+    expect(recognized?.entry).toBe(charizard);
+  });
+
+  it('halves a picture-only match when another picture is as close', () => {
+    const alone = combineEvidence([], 0, [visualMatch(charizard, 2)]);
+    const reprinted = combineEvidence([], 0, [visualMatch(charizard, 2), visualMatch(blastoise, 3)]);
+    expect(reprinted!.confidence).toBeCloseTo(alone!.confidence / 2, 2);
+  });
+
+  it('recognizes nothing without evidence', () => {
+    expect(combineEvidence([], 0, [])).toBeNull();
+    expect(combineEvidence([textMatch(charizard, 0.9)], 0, [])).toBeNull();
+  });
+});
+
+describe('indexCardImages', () => {
+  it('hashes catalog pictures into an index that finds a photo of the card', async () => {
+    // A path starting with / is read from public/, so local files are given relative to the working directory
+    const dir = path.relative(process.cwd(), mkdtempSync(path.join(os.tmpdir(), 'andookie-images-')));
+    for (const [id, shapes] of Object.entries(PICTURES)) {
+      writeFileSync(path.join(dir, `${id}.png`), await picture(shapes));
+    }
+
+    const repository = new FileCardRepository(path.join(dir, 'catalog.json'));
+    setCardRepository(repository);
+    await repository.upsertMany([
+      entry('2/102', 'Blastoise', path.join(dir, 'bs-2.png')),
+      entry('4/102', 'Charizard', path.join(dir, 'bs-4.png')),
+      entry('15/102', 'Venusaur', path.join(dir, 'bs-15.png')),
+      entry('58/102', 'Pikachu', path.join(dir, 'missing.png')),
+      entry('16/102', 'Zapdos')
+    ]);
+
+    const first = await indexCardImages();
+    expect(first).toMatchObject({ indexed: 3, unchanged: 0, withoutImage: 1 });
+    expect(first.failed.map(failure => failure.id)).toEqual(['bs-58']);
+    expect(await indexCardImages()).toMatchObject({ indexed: 0, unchanged: 3 });
+
+    const index = new CardImageIndex(await repository.list(), await getImageHashRepository().list());
+    const photo = await sharp(await picture(PICTURES['bs-4'])).resize(200).jpeg({ quality: 70 }).toBuffer();
+    const [best] = index.nearest(await perceptualHash(photo));
+    expect(best.entry.id).toBe('bs-4');
+  });
+});
@@ -0,0 +1,234 @@
+// src/lib/imageIndex.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CardDatabaseEntry, CardImageHash, MatchCandidate, MatchStrategy } from './types';
+import { APIError } from './errors';
+import { DATA_DIR, JsonCollection } from './storage';
+import { getCardRepository } from './catalog';
+import { hammingDistance, perceptualHash } from './imageHash';
+
+export interface ImageHashRepository {
+  findById(cardId: string): Promise<CardImageHash | null>;
+  list(): Promise<CardImageHash[]>;
+  saveMany(hashes: CardImageHash[]): Promise<void>;
+}
+
+export const DEFAULT_IMAGE_INDEX_PATH = path.join(DATA_DIR, 'image-index.json');
+
+// Where catalog pictures with a site path ("/cards/bs-4.png") are served from
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+// Beyond this many differing bits (of 64) two pictures are unrelated; photos
+// of the same card typically land well under it, unrelated cards around 32
+const MAX_MATCH_DISTANCE = 22;
+
+// Entries this close to the best visual match are treated as the same
+// picture, which reprints with the same art often are
+const SAME_PICTURE_DISTANCE = 2;
+
+/**
+ * Perceptual hashes of catalog pictures, one record per catalog entry
+ */
+export class FileImageHashRepository extends JsonCollection<CardImageHash> implements ImageHashRepository {
+  constructor(filePath: string = DEFAULT_IMAGE_INDEX_PATH) {
+    super(filePath, stored => ({ ...stored, indexedAt: new Date(stored.indexedAt) }));
+  }
+}
+
+let repository: ImageHashRepository | null = null;
+
+export const getImageHashRepository = (): ImageHashRepository => {
+  if (!repository) {
+    repository = new FileImageHashRepository(process.env.IMAGE_INDEX_PATH || DEFAULT_IMAGE_INDEX_PATH);
+  }
+  return repository;
+};
+
+// Swap the repository implementation (e.g. for scripts pointing at another file)
+export const setImageHashRepository = (newRepository: ImageHashRepository): void => {
+  repository = newRepository;
+};
+
+export interface VisualMatch {
+  entry: CardDatabaseEntry;
+  distance: number;
+  // 1 for an identical picture, falling to 0 at MAX_MATCH_DISTANCE
+  similarity: number;
+}
+
+/**
+ * Catalog entries searchable by how their picture looks. A linear scan:
+ * comparing 64-bit hashes is cheap enough for catalogs of tens of thousands.
+ */
+export class CardImageIndex {
+  private hashes: Array<{ entry: CardDatabaseEntry; hash: string }>;
+
+  constructor(catalog: CardDatabaseEntry[], hashes: CardImageHash[]) {
+    const byId = new Map(hashes.map(record => [record.id, record]));
+    this.hashes = catalog
+      // A hash of an older picture says nothing about the current one
+      .filter(entry => entry.imageUrl && byId.get(entry.id)?.imageUrl === entry.imageUrl)
+      .map(entry => ({ entry, hash: byId.get(entry.id)!.hash }));
+  }
+
+  get size(): number {
+    return this.hashes.length;
+  }
+
+  nearest(hash: string, limit: number = 5): VisualMatch[] {
+    return this.hashes
+      .map(({ entry, hash: entryHash }) => ({ entry, distance: hammingDistance(hash, entryHash) }))
+      .filter(({ distance }) => distance <= MAX_MATCH_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ entry, distance }) => ({
+        entry,
+        distance,
+        similarity: Math.round((1 - distance / MAX_MATCH_DISTANCE) * 1000) / 1000
+      }));
+  }
+}
+
+let imageIndex: Promise<CardImageIndex> | null = null;
+
+/**
+ * The index over the current catalog, loaded once per server. Rebuild it
+ * with `npm run catalog:index-images` after importing cards with pictures.
+ */
+export const getCardImageIndex = (): Promise<CardImageIndex> => {
+  if (!imageIndex) {
+    imageIndex = Promise.all([getCardRepository().list(), getImageHashRepository().list()])
+      .then(([catalog, hashes]) => {
+        const index = new CardImageIndex(catalog, hashes);
+        if (index.size === 0) {
+          console.warn('The card image index is empty, so photos are matched by their text alone. Run `npm run catalog:index-images`.');
+        }
+        return index;
+      })
+      .catch(error => {
+        imageIndex = null;
+        throw error;
+      });
+  }
+  return imageIndex;
+};
+
+/**
+ * Fetch a catalog picture: a URL, a path under public/ ("/cards/bs-4.png"),
+ * or a path relative to the working directory
+ */
+export const loadCardImage = async (imageUrl: string): Promise<Buffer> => {
+  if (/^https?:\/\//i.test(imageUrl)) {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new APIError(`${imageUrl}: ${response.status} ${response.statusText}`, 502);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  return fs.readFile(imageUrl.startsWith('/') ? path.join(PUBLIC_DIR, imageUrl) : imageUrl);
+};
+
+export interface ImageIndexResult {
+  indexed: number;
+  unchanged: number;
+  withoutImage: number;
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Hash the picture of every catalog entry that has one. Entries already
+ * hashed for the same imageUrl are skipped unless `rebuild` is set.
+ */
+export const indexCardImages = async (
+  options: { rebuild?: boolean; onProgress?: (done: number, total: number) => void } = {}
+): Promise<ImageIndexResult> => {
+  const catalog = await getCardRepository().list();
+  const hashes = getImageHashRepository();
+  const result: ImageIndexResult = { indexed: 0, unchanged: 0, withoutImage: 0, failed: [] };
+  const updated: CardImageHash[] = [];
+
+  const withImage = catalog.filter(entry => entry.imageUrl);
+  result.withoutImage = catalog.length - withImage.length;
+
+  for (const [done, entry] of withImage.entries()) {
+    const existing = await hashes.findById(entry.id);
+    if (!options.rebuild && existing?.imageUrl === entry.imageUrl) {
+      result.unchanged++;
+      continue;
+    }
+
+    try {
+      const hash = await perceptualHash(await loadCardImage(entry.imageUrl!));
+      updated.push({ id: entry.id, imageUrl: entry.imageUrl!, hash, indexedAt: new Date() });
+      result.indexed++;
+    } catch (error) {
+      result.failed.push({ id: entry.id, error: (error as Error).message });
+    }
+    options.onProgress?.(done + 1, withImage.length);
+  }
+
+  if (updated.length > 0) {
+    await hashes.saveMany(updated);
+  }
+  return result;
+};
+
+export interface RecognizedCard {
+  entry: CardDatabaseEntry;
+  confidence: number;
+  strategy: MatchStrategy;
+}
+
+/**
+ * Weigh what the text says against what the picture looks like. Each is
+ * evidence in [0, 1] for a catalog entry (the text's match score scaled by
+ * how confidently it was read, the picture's similarity), combined so that
+ * either can carry a card on its own and agreement raises the confidence:
+ * 1 - (1 - text) * (1 - picture).
+ */
+export const combineEvidence = (
+  textMatches: MatchCandidate[],
+  textConfidence: number,
+  visualMatches: VisualMatch[]
+): RecognizedCard | null => {
+  const evidence = new Map<string, { entry: CardDatabaseEntry; text: number; visual: number; strategy?: MatchStrategy }>();
+
+  // The matcher's order stands (a collector number beats a closer name), so
+  // no runner-up counts for more than its first choice
+  for (const match of textMatches) {
+    const text = Math.min(match.score, textMatches[0].score) * textConfidence;
+    evidence.set(match.entry.id, { entry: match.entry, text, visual: 0, strategy: match.strategy });
+  }
+  for (const match of visualMatches) {
+    const current = evidence.get(match.entry.id) || { entry: match.entry, text: 0, visual: 0 };
+    evidence.set(match.entry.id, { ...current, visual: match.similarity });
+  }
+
+  const ranked = [...evidence.values()]
+    .map(item => ({ ...item, confidence: 1 - (1 - item.text) * (1 - item.visual) }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [best] = ranked;
+  if (!best || best.confidence === 0) {
+    return null;
+  }
+
+  let confidence = best.confidence;
+  const byPicture = best.visual > best.text;
+
+  // Going on the picture alone, a reprint with the same art is as likely
+  const bestVisual = visualMatches.find(match => match.entry.id === best.entry.id);
+  if (best.text === 0 && bestVisual && visualMatches.some(match =>
+    match !== bestVisual && match.distance - bestVisual.distance <= SAME_PICTURE_DISTANCE
+  )) {
+    confidence /= 2;
+  }
+
+  return {
+    entry: best.entry,
+    confidence: Math.round(confidence * 1000) / 1000,
+    strategy: byPicture || !best.strategy ? 'image' : best.strategy
+  };
+};
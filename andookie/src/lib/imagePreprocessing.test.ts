@@ -0,0 +1,94 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { applyTransform, findCardCorners, perspectiveTransform, preprocessImage, Point, Quad, RawImage } from './imagePreprocessing';
+
+const SIZE = 600;
+const CARD = { width: 252, height: 352 };
+
+// Corners of a card centred in the photo and turned clockwise by `degrees`
+const cardCorners = (degrees: number): Quad => {
+  const angle = degrees * Math.PI / 180;
+  const halfWidth = CARD.width / 2;
+  const halfHeight = CARD.height / 2;
+  const offsets: Array<[number, number]> = [[-halfWidth, -halfHeight], [halfWidth, -halfHeight], [halfWidth, halfHeight], [-halfWidth, halfHeight]];
+  return offsets.map(([dx, dy]) => ({
+    x: SIZE / 2 + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: SIZE / 2 + dx * Math.sin(angle) + dy * Math.cos(angle)
+  })) as Quad;
+};
+
+// A dark blue card with a red name bar across its top, on a plain light background
+const cardPhoto = async (degrees: number, height: number = CARD.height): Promise<Buffer> => {
+  const { width } = CARD;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}">
+    <rect width="100%" height="100%" fill="#e8e8e8"/>
+    <g transform="rotate(${degrees} ${SIZE / 2} ${SIZE / 2})">
+      <rect x="${(SIZE - width) / 2}" y="${(SIZE - height) / 2}" width="${width}" height="${height}" fill="#203060"/>
+      <rect x="${(SIZE - width) / 2}" y="${(SIZE - height) / 2}" width="${width}" height="${height * 0.12}" fill="#d02020"/>
+    </g>
+  </svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+};
+
+const toRaw = async (png: Buffer): Promise<RawImage> => {
+  const { data, info } = await sharp(png).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+};
+
+const pixel = (image: RawImage, x: number, y: number): number[] => {
+  const offset = (Math.round(y) * image.width + Math.round(x)) * 3;
+  return Array.from(image.data.subarray(offset, offset + 3));
+};
+
+const expectNear = (actual: Point, expected: Point, tolerance: number) => {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance);
+};
+
+describe('findCardCorners', () => {
+  it('finds the corners of a turned card, clockwise from the top left', async () => {
+    const corners = findCardCorners(await toRaw(await cardPhoto(15)));
+
+    // Detection runs on a grid of 3px blocks, so a corner lands within a few blocks
+    expect(corners).not.toBeNull();
+    corners!.forEach((corner, index) => expectNear(corner, cardCorners(15)[index], 8));
+  });
+
+  it('finds nothing on a plain background or in a shape that is not a card', async () => {
+    const blank = await sharp({ create: { width: SIZE, height: SIZE, channels: 3, background: '#e8e8e8' } }).png().toBuffer();
+    expect(findCardCorners(await toRaw(blank))).toBeNull();
+
+    // Square rather than card-shaped
+    expect(findCardCorners(await toRaw(await cardPhoto(10, CARD.width)))).toBeNull();
+  });
+});
+
+describe('perspectiveTransform', () => {
+  it('maps each corner onto its counterpart', () => {
+    const from = cardCorners(20);
+    const to: Quad = [{ x: 0, y: 0 }, { x: 63, y: 0 }, { x: 63, y: 88 }, { x: 0, y: 88 }];
+    const transform = perspectiveTransform(to, from);
+    to.forEach((corner, index) => expectNear(applyTransform(transform, corner), from[index], 1e-6));
+  });
+});
+
+describe('preprocessImage', () => {
+  it('straightens a turned card so its name bar is on top', async () => {
+    const image = await preprocessImage(await cardPhoto(-12), { cardHeight: 440 });
+
+    expect(image.height).toBe(440);
+    expect(image.width).toBe(Math.round(440 * 63 / 88));
+    expect(image.cardCorners).toHaveLength(4);
+
+    const [red, , blue] = pixel(image.card!, image.width / 2, image.height * 0.05);
+    expect(red).toBeGreaterThan(150);
+    expect(blue).toBeLessThan(80);
+
+    const middle = pixel(image.card!, image.width / 2, image.height / 2);
+    expect(middle[2]).toBeGreaterThan(middle[0]);
+
+    // The straightened card's centre is where the card sat in the photo
+    const centre = image.toOriginal({ x: image.width / 2, y: image.height / 2, width: 0, height: 0 });
+    expectNear(centre, { x: SIZE / 2, y: SIZE / 2 }, 4);
+  });
+});
@@ -0,0 +1,482 @@
+// src/lib/imagePreprocessing.ts
+
+import sharp from 'sharp';
+import { BoundingBox } from './types';
+import { InvalidImageError } from './errors';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in clockwise order from the top left
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessOptions {
+  // Longest side, in pixels, a photo is scaled down to
+  maxDimension?: number;
+  // Height, in pixels, of a straightened card
+  cardHeight?: number;
+  // Look for a single card to straighten; off for photos known to hold several
+  detectCard?: boolean;
+}
+
+export interface PreprocessedImage {
+  // PNG to hand to the OCR provider
+  buffer: Buffer;
+  width: number;
+  height: number;
+  // Where the card was found in the upright photo, when one was straightened
+  cardCorners?: Quad;
+  // The straightened card before its contrast was raised, to compare with catalog pictures
+  card?: RawImage;
+  // Map a box in the preprocessed image back onto the upright photo the seller uploaded
+  toOriginal(box: BoundingBox): BoundingBox;
+}
+
+// Interleaved RGB pixels
+export interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_MAX_DIMENSION = 1600;
+const DEFAULT_CARD_HEIGHT = 1120;
+
+// Width over height of a standard card (63 x 88 mm)
+const CARD_ASPECT = 63 / 88;
+const CARD_ASPECT_TOLERANCE = 0.12;
+
+// Card detection runs on a copy about this size; corners only need to be
+// accurate to a few pixels
+const DETECTION_SIZE = 256;
+
+// Below this, in grey levels, a card can't be told apart from what it lies on
+const MIN_BACKGROUND_CONTRAST = 24;
+
+// A card smaller than this share of the photo is one of several (a binder
+// page) or too far away to be worth straightening
+const MIN_CARD_AREA = 0.2;
+
+// Share of the card's outline its pixels must fill to count as a rectangle
+const MIN_QUAD_FILL = 0.9;
+
+// Bands of a straightened card, as fractions of its height, that hold the
+// name bar and the collector number in every era's layout
+const NAME_BAND = { top: 0, height: 0.14 };
+const NUMBER_BAND = { top: 0.86, height: 0.14 };
+
+// Name and number crops are scaled up by this much, since OCR reads small
+// print better larger
+const CROP_SCALE = 2;
+const CROP_MARGIN = 24;
+
+// Share of pixels clipped at each end when stretching contrast, so glare and
+// deep shadow don't set the range
+const CONTRAST_CLIP = 0.02;
+
+const luminance = (data: Buffer, offset: number): number => {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const quadArea = (quad: Quad): number => {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Threshold that best splits the values into two groups (Otsu's method)
+ */
+const otsuThreshold = (values: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  values.forEach(value => histogram[value]++);
+
+  const total = values.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let below = 0;
+  let belowSum = 0;
+  let best = 0;
+  let threshold = 0;
+
+  for (let level = 0; level < 256; level++) {
+    below += histogram[level];
+    if (below === 0) continue;
+    const above = total - below;
+    if (above === 0) break;
+
+    belowSum += level * histogram[level];
+    const meanBelow = belowSum / below;
+    const meanAbove = (sum - belowSum) / above;
+    const variance = below * above * (meanBelow - meanAbove) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * The pixels of the largest 4-connected region of the mask
+ */
+const largestComponent = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let largest: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      component.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (component.length > largest.length) {
+      largest = component;
+    }
+  }
+  return largest;
+};
+
+/**
+ * Find the outline of a single card lying on a plainer background. The
+ * background colour is taken from the photo's edges; whatever stands out
+ * from it in one connected piece is the card if that piece is a large,
+ * card-shaped quadrilateral. Returns null for binder pages, cards that fill
+ * the frame and anything else that doesn't fit, so the photo is used as is.
+ */
+export const findCardCorners = (image: RawImage): Quad | null => {
+  const step = Math.max(1, Math.ceil(Math.max(image.width, image.height) / DETECTION_SIZE));
+  const width = Math.floor(image.width / step);
+  const height = Math.floor(image.height / step);
+  if (width < 8 || height < 8) return null;
+
+  const grey = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      grey[y * width + x] = luminance(image.data, ((y * step) * image.width + x * step) * 3);
+    }
+  }
+
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(grey[x], grey[(height - 1) * width + x]);
+  for (let y = 0; y < height; y++) border.push(grey[y * width], grey[y * width + width - 1]);
+  const background = border.sort((a, b) => a - b)[Math.floor(border.length / 2)];
+
+  const contrast = grey.map(value => Math.abs(value - background));
+  const threshold = Math.max(otsuThreshold(contrast), MIN_BACKGROUND_CONTRAST);
+  const mask = contrast.map(value => (value > threshold ? 1 : 0));
+
+  const component = largestComponent(mask, width, height);
+  if (component.length === 0) return null;
+
+  // Fill each row between the component's outermost pixels, so card art
+  // that happens to match the background doesn't leave holes
+  const rowExtents = new Map<number, [number, number]>();
+  const points = component.map(index => ({ x: index % width, y: Math.floor(index / width) }));
+
+  for (const { x, y } of points) {
+    const [left, right] = rowExtents.get(y) || [x, x];
+    rowExtents.set(y, [Math.min(left, x), Math.max(right, x)]);
+  }
+
+  // A card cut off by the frame can't be straightened reliably
+  if (points.some(({ x, y }) => x === 0 || y === 0 || x === width - 1 || y === height - 1)) {
+    return null;
+  }
+
+  // Each corner is the point furthest out along its diagonal, which holds
+  // for cards turned up to about 45 degrees
+  const extreme = (key: (point: Point) => number): Point => {
+    return points.reduce((best, point) => (key(point) > key(best) ? point : best));
+  };
+  const quad: Quad = [
+    extreme(({ x, y }) => -x - y),
+    extreme(({ x, y }) => x - y),
+    extreme(({ x, y }) => x + y),
+    extreme(({ x, y }) => y - x)
+  ];
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const area = quadArea(quad);
+  const filled = [...rowExtents.values()].reduce((sum, [left, right]) => sum + right - left + 1, 0);
+  if (area < MIN_CARD_AREA * width * height || filled < MIN_QUAD_FILL * area || filled > area / MIN_QUAD_FILL) {
+    return null;
+  }
+
+  const quadWidth = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const quadHeight = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  const aspect = Math.min(quadWidth, quadHeight) / Math.max(quadWidth, quadHeight);
+  if (Math.abs(aspect - CARD_ASPECT) > CARD_ASPECT_TOLERANCE) return null;
+
+  // Back to full-size pixels, from the middle of each sampled block
+  return quad.map(point => ({ x: (point.x + 0.5) * step, y: (point.y + 0.5) * step })) as Quad;
+};
+
+/**
+ * Solve a linear system by Gaussian elimination with partial pivoting
+ */
+const solve = (matrix: number[][], values: number[]): number[] => {
+  const rows = matrix.map((row, i) => [...row, values[i]]);
+  const size = rows.length;
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < size; row++) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= size; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  const solution = new Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = rows[row][size];
+    for (let k = row + 1; k < size; k++) sum -= rows[row][k] * solution[k];
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+};
+
+/**
+ * The perspective transform taking each corner of `from` to the matching
+ * corner of `to`, as the 8 free entries of its 3x3 matrix
+ */
+export const perspectiveTransform = (from: Quad, to: Quad): number[] => {
+  const matrix: number[][] = [];
+  const values: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  }
+  return solve(matrix, values);
+};
+
+export const applyTransform = (transform: number[], point: Point): Point => {
+  const [a, b, c, d, e, f, g, h] = transform;
+  const w = g * point.x + h * point.y + 1;
+  return {
+    x: (a * point.x + b * point.y + c) / w,
+    y: (d * point.x + e * point.y + f) / w
+  };
+};
+
+/**
+ * Render the card inside `corners` as an upright rectangle, sampling the
+ * source bilinearly
+ */
+const warpCard = (image: RawImage, corners: Quad, width: number, height: number): { image: RawImage; transform: number[] } => {
+  const target: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  // Output pixel -> source pixel, so every output pixel gets a value
+  const transform = perspectiveTransform(target, corners);
+  const data = Buffer.alloc(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = applyTransform(transform, { x: x + 0.5, y: y + 0.5 });
+      const sx = Math.min(Math.max(source.x - 0.5, 0), image.width - 1);
+      const sy = Math.min(Math.max(source.y - 0.5, 0), image.height - 1);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, image.width - 1);
+      const y1 = Math.min(y0 + 1, image.height - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const at = (px: number, py: number) => image.data[(py * image.width + px) * 3 + channel];
+        const top = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+        const bottom = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+        data[(y * width + x) * 3 + channel] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+
+  return { image: { data, width, height }, transform };
+};
+
+/**
+ * Stretch the brightness of a region so its darkest and lightest pixels
+ * (ignoring the extremes) span the full range. Faded print and glare both
+ * leave text low in contrast, which costs OCR more than anything else.
+ */
+export const stretchContrast = (image: RawImage, region: BoundingBox): void => {
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(image.width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+  if (right <= left || bottom <= top) return;
+
+  const histogram = new Array(256).fill(0);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      histogram[Math.round(luminance(image.data, (y * image.width + x) * 3))]++;
+    }
+  }
+
+  const clip = CONTRAST_CLIP * (right - left) * (bottom - top);
+  let low = 0;
+  let clippedLow = histogram[0];
+  while (clippedLow <= clip && low < 255) {
+    clippedLow += histogram[++low];
+  }
+  let high = 255;
+  let clippedHigh = histogram[255];
+  while (clippedHigh <= clip && high > 0) {
+    clippedHigh += histogram[--high];
+  }
+  if (high <= low) return;
+
+  const scale = 255 / (high - low);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const offset = (y * image.width + x) * 3;
+      for (let channel = 0; channel < 3; channel++) {
+        const value = (image.data[offset + channel] - low) * scale;
+        image.data[offset + channel] = Math.max(0, Math.min(255, Math.round(value)));
+      }
+    }
+  }
+};
+
+const boundingBoxOf = (points: Point[]): BoundingBox => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/**
+ * Get a phone photo ready for OCR: turn it upright from its EXIF orientation,
+ * scale it down, and when it shows a single card on a background, cut the
+ * card out and straighten it, then raise the contrast of its name bar and
+ * collector number. Photos of several cards have their contrast raised as a
+ * whole instead, since where each card's text sits isn't known yet.
+ */
+export const preprocessImage = async (
+  input: Buffer,
+  options: PreprocessOptions = {}
+): Promise<PreprocessedImage> => {
+  const {
+    maxDimension = DEFAULT_MAX_DIMENSION,
+    cardHeight = DEFAULT_CARD_HEIGHT,
+    detectCard = true
+  } = options;
+
+  let photo: RawImage;
+  let orientedWidth: number;
+  try {
+    const { autoOrient } = await sharp(input).metadata();
+    orientedWidth = autoOrient.width;
+
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    photo = { data, width: info.width, height: info.height };
+  } catch (error) {
+    throw new InvalidImageError(`Could not read image: ${(error as Error).message}`);
+  }
+
+  // Downsizing is the only change to positions unless a card is straightened
+  const scale = orientedWidth / photo.width;
+  const toPhoto = (point: Point): Point => ({ x: point.x * scale, y: point.y * scale });
+
+  const corners = detectCard ? findCardCorners(photo) : null;
+  let output = photo;
+  let card: RawImage | undefined;
+  let toOriginal = (box: BoundingBox): BoundingBox => boundingBoxOf([
+    toPhoto({ x: box.x, y: box.y }),
+    toPhoto({ x: box.x + box.width, y: box.y + box.height })
+  ]);
+
+  if (corners) {
+    const [topLeft, topRight, , bottomLeft] = corners;
+    const sideways = distance(topLeft, topRight) > distance(topLeft, bottomLeft);
+    const cardWidth = Math.round(cardHeight * CARD_ASPECT);
+    const [width, height] = sideways ? [cardHeight, cardWidth] : [cardWidth, cardHeight];
+
+    const warped = warpCard(photo, corners, width, height);
+    output = warped.image;
+    card = { ...warped.image, data: Buffer.from(warped.image.data) };
+    toOriginal = box => boundingBoxOf([
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height }
+    ].map(point => toPhoto(applyTransform(warped.transform, point))));
+
+    // A card lying sideways may be either way round, so its bands can't be placed
+    if (!sideways) {
+      for (const band of [NAME_BAND, NUMBER_BAND]) {
+        stretchContrast(output, { x: 0, y: band.top * height, width, height: band.height * height });
+      }
+    }
+  } else {
+    stretchContrast(output, { x: 0, y: 0, width: output.width, height: output.height });
+  }
+
+  const buffer = await sharp(output.data, { raw: { width: output.width, height: output.height, channels: 3 } })
+    .png()
+    .toBuffer();
+
+  return {
+    buffer,
+    width: output.width,
+    height: output.height,
+    cardCorners: corners ? corners.map(toPhoto) as Quad : undefined,
+    card,
+    toOriginal
+  };
+};
+
+/**
+ * Cut a box out of a preprocessed image for OCR on its own. The crop is
+ * scaled up and given a margin, so positions read from it lose the margin
+ * and are divided by the returned scale.
+ */
+export const cropImage = async (image: Buffer, box: BoundingBox): Promise<{ buffer: Buffer; scale: number; margin: number }> => {
+  const buffer = await sharp(image)
+    .extract({ left: box.x, top: box.y, width: box.width, height: box.height })
+    .resize({ width: box.width * CROP_SCALE, height: box.height * CROP_SCALE })
+    // OCR engines find text touching the edge of an image hard to read
+    .extend({ top: CROP_MARGIN, bottom: CROP_MARGIN, left: CROP_MARGIN, right: CROP_MARGIN, background: '#ffffff' })
+    .png()
+    .toBuffer();
+  return { buffer, scale: CROP_SCALE, margin: CROP_MARGIN };
+};
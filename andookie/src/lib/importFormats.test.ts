@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { detectExportFormat, findExportFormat, normalizeCondition, normalizeHeader } from './importFormats';
+
+describe('detectExportFormat', () => {
+  it('recognises a Dragon Shield export and maps its columns', () => {
+    const headers = ['Folder Name', 'Quantity', 'Trade Quantity', 'Card Name', 'Set Code', 'Set Name', 'Card Number', 'Condition', 'Printing', 'Language'];
+    const detected = detectExportFormat(headers);
+
+    expect(detected?.format.id).toBe('dragonshield');
+    expect(detected?.mapping).toEqual({
+      name: 'Card Name',
+      set: 'Set Name',
+      setCode: 'Set Code',
+      number: 'Card Number',
+      condition: 'Condition',
+      quantity: 'Quantity',
+      language: 'Language',
+      foil: 'Printing'
+    });
+  });
+
+  it('recognises a Collectr export', () => {
+    const headers = ['Portfolio Name', 'Category', 'Set', 'Product Name', 'Card Number', 'Rarity', 'Card Condition', 'Quantity'];
+    expect(detectExportFormat(headers)?.format.id).toBe('collectr');
+  });
+
+  it('leaves other spreadsheets alone', () => {
+    expect(detectExportFormat(['Name', 'Set', 'Qty'])).toBeNull();
+  });
+});
+
+describe('normalizeHeader', () => {
+  it('folds case and punctuation', () => {
+    expect(normalizeHeader('  Card_Number ')).toBe('card number');
+    expect(normalizeHeader('Card #')).toBe('card #');
+  });
+});
+
+describe('normalizeCondition', () => {
+  it('reads abbreviations and full names', () => {
+    expect(normalizeCondition('NM')).toBe('Near Mint');
+    expect(normalizeCondition('Lightly Played')).toBe('Lightly Played');
+    expect(normalizeCondition('dmg')).toBe('Heavily Played');
+    expect(normalizeCondition('Very shiny')).toBeNull();
+  });
+
+  it("uses a format's own scale", () => {
+    const dragonShield = findExportFormat('dragonshield');
+    expect(normalizeCondition('Excellent', dragonShield)).toBe('Lightly Played');
+    expect(normalizeCondition('Good', dragonShield)).toBe('Moderately Played');
+  });
+});
@@ -0,0 +1,143 @@
+// src/lib/importFormats.ts
+
+import { CardCondition, ColumnMapping, ImportField } from './types';
+import { findConditionKeyword } from './cardLines';
+
+/**
+ * Column layout of a collection app's CSV export. A file is taken to be in
+ * this format when its header has every `signature` column.
+ */
+export interface CollectionExportFormat {
+  id: string;
+  name: string;
+  signature: string[];
+  // Normalized header name for each field
+  columns: Partial<Record<ImportField, string>>;
+  // Condition names that mean something different in this app
+  conditions?: Record<string, CardCondition>;
+  // When the foil column names the printing ("1st Edition Holofoil"): the
+  // printings that are foil. Every other printing is not.
+  foilPrintings?: RegExp;
+}
+
+// Lowercase, punctuation folded to single spaces ("Card #" -> "card #")
+export const normalizeHeader = (header: string): string => {
+  return header.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim();
+};
+
+// European apps grade on Cardmarket's scale, which runs a step finer than ours
+const CARDMARKET_CONDITIONS: Record<string, CardCondition> = {
+  'excellent': 'Lightly Played',
+  'good': 'Moderately Played',
+  'lightplayed': 'Moderately Played',
+  'played': 'Heavily Played',
+  'poor': 'Heavily Played'
+};
+
+export const COLLECTION_EXPORT_FORMATS: CollectionExportFormat[] = [
+  {
+    id: 'tcgplayer',
+    name: 'TCGplayer collection',
+    signature: ['quantity', 'simple name', 'set', 'card number', 'condition', 'printing'],
+    columns: {
+      name: 'simple name',
+      set: 'set',
+      setCode: 'set code',
+      number: 'card number',
+      condition: 'condition',
+      quantity: 'quantity',
+      language: 'language',
+      foil: 'printing'
+    },
+    // "Normal", "Holofoil", "Reverse Holofoil", "1st Edition Holofoil", "Unlimited"...
+    foilPrintings: /holofoil/i
+  },
+  {
+    id: 'dragonshield',
+    name: 'Dragon Shield Card Manager',
+    signature: ['folder name', 'quantity', 'card name', 'set code', 'card number', 'condition'],
+    columns: {
+      name: 'card name',
+      set: 'set name',
+      setCode: 'set code',
+      number: 'card number',
+      condition: 'condition',
+      quantity: 'quantity',
+      language: 'language',
+      foil: 'printing'
+    },
+    conditions: CARDMARKET_CONDITIONS
+  },
+  {
+    id: 'collectr',
+    name: 'Collectr portfolio',
+    signature: ['portfolio name', 'product name', 'card number', 'card condition', 'quantity'],
+    columns: {
+      name: 'product name',
+      set: 'set',
+      number: 'card number',
+      condition: 'card condition',
+      quantity: 'quantity'
+    }
+  }
+];
+
+export const findExportFormat = (id: string | undefined): CollectionExportFormat | undefined => {
+  return COLLECTION_EXPORT_FORMATS.find(format => format.id === id);
+};
+
+/**
+ * Recognise a collection app export from its header row, returning the
+ * format and the mapping of its columns
+ */
+export const detectExportFormat = (headers: string[]): { format: CollectionExportFormat; mapping: ColumnMapping } | null => {
+  const normalized = headers.map(normalizeHeader);
+  const format = COLLECTION_EXPORT_FORMATS.find(candidate =>
+    candidate.signature.every(column => normalized.includes(column))
+  );
+  if (!format) {
+    return null;
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const [field, column] of Object.entries(format.columns) as Array<[ImportField, string]>) {
+    const index = normalized.indexOf(column);
+    if (index !== -1) {
+      mapping[field] = headers[index];
+    }
+  }
+  return { format, mapping };
+};
+
+// Abbreviations and spellings export files use, keyed lowercase without spaces
+const CONDITION_ABBREVIATIONS: Record<string, CardCondition> = {
+  'm': 'Mint',
+  'mt': 'Mint',
+  'nm': 'Near Mint',
+  'nm/m': 'Near Mint',
+  'nearmint': 'Near Mint',
+  'ex': 'Lightly Played',
+  'lp': 'Lightly Played',
+  'lightlyplayed': 'Lightly Played',
+  'gd': 'Moderately Played',
+  'mp': 'Moderately Played',
+  'moderatelyplayed': 'Moderately Played',
+  'pl': 'Heavily Played',
+  'hp': 'Heavily Played',
+  'heavilyplayed': 'Heavily Played',
+  'po': 'Heavily Played',
+  'dmg': 'Heavily Played',
+  'damaged': 'Heavily Played'
+};
+
+/**
+ * Map a condition as written in an export onto our scale, or null if it
+ * isn't one we recognise
+ */
+export const normalizeCondition = (value: string, format?: CollectionExportFormat): CardCondition | null => {
+  const key = value.toLowerCase().replace(/[^a-z/]/g, '');
+  return format?.conditions?.[key] ||
+    CONDITION_ABBREVIATIONS[key] ||
+    findConditionKeyword(value)?.condition ||
+    null;
+};
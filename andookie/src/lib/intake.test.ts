@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { decideAdjustment, gradeOrder, updateOrderStatus } from './intake';
+import { canTransition } from './orderStatus';
+import { toPublicOrder, transitionOrder } from './orders';
+import { CardCondition, Order, OrderStatus } from './types';
+
+const order = (status: OrderStatus, overrides: Partial<Order> = {}): Order => ({
+  id: 'AND-TEST-0001',
+  offerId: 'off_test',
+  status,
+  history: [{ status, at: new Date('2024-01-01') }],
+  cards: [
+    {
+      id: 1, name: 'Charizard', set: 'Base Set', number: '4/102', condition: 'Near Mint',
+      marketPrice: 100, ourOffer: 70, quantity: 2, catalogId: 'bs-4', outcome: 'pending'
+    },
+    {
+      id: 2, name: 'Pikachu', set: 'Base Set', number: '58/102', condition: 'Lightly Played',
+      marketPrice: 10, ourOffer: 6, quantity: 1, catalogId: 'bs-58', outcome: 'pending'
+    }
+  ],
+  totalOffer: 146,
+  customerInfo: {
+    email: 'ash@example.com',
+    name: 'Ash Ketchum',
+    address: { street: '1 Route', city: 'Pallet Town', state: 'KA', zipCode: '12345' }
+  },
+  shippingLabel: { trackingNumber: '1ZAND0000', labelUrl: '/api/orders/AND-TEST-0001/label' },
+  estimatedPayment: { amount: 146, processingTime: 'Within 24 hours' },
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...overrides
+});
+
+describe('order status machine', () => {
+  it('only allows moves along the flow', () => {
+    expect(canTransition('label_issued', 'received')).toBe(true);
+    expect(canTransition('received', 'paid')).toBe(false);
+    expect(canTransition('paid', 'returned')).toBe(false);
+  });
+
+  it('records each move in the history', () => {
+    const moved = transitionOrder(order('label_issued'), 'in_transit', 'Scanned by carrier');
+    expect(moved.status).toBe('in_transit');
+    expect(moved.history.at(-1)).toMatchObject({ status: 'in_transit', note: 'Scanned by carrier' });
+  });
+
+  it('refuses a move the current status does not allow', () => {
+    expect(() => transitionOrder(order('received'), 'paid')).toThrow(/can't go from "Received" to "Paid"/);
+  });
+});
+
+describe('gradeOrder', () => {
+  it('keeps the offer when every card matches its listing', async () => {
+    const graded = await gradeOrder(order('received'), [
+      { cardId: 1, condition: 'Near Mint' },
+      { cardId: 2, condition: 'Lightly Played' }
+    ]);
+    expect(graded.status).toBe('graded');
+    expect(graded.adjustment).toBeUndefined();
+    expect(graded.cards.every(card => card.outcome === 'accepted')).toBe(true);
+  });
+
+  it('re-prices cards that arrived in worse condition and waits on the seller', async () => {
+    const graded = await gradeOrder(order('received'), [
+      { cardId: 1, condition: 'Lightly Played', note: ' Whitening ' },
+      { cardId: 2, condition: 'Lightly Played' }
+    ]);
+
+    expect(graded.status).toBe('adjusted');
+    expect(graded.cards[0]).toMatchObject({ outcome: 'adjusted', adjustedMarketPrice: 80, adjustedOffer: 56, gradeNote: 'Whitening' });
+    expect(graded.adjustment).toMatchObject({ originalTotal: 146, adjustedTotal: 118, difference: -28, decision: 'pending' });
+  });
+
+  it('needs every card graded, with a known condition', async () => {
+    await expect(gradeOrder(order('received'), [{ cardId: 1, condition: 'Near Mint' }])).rejects.toThrow(/hasn't been graded/);
+    await expect(gradeOrder(order('received'), [{ cardId: 9, condition: 'Near Mint' }])).rejects.toThrow(/isn't part of order/);
+    await expect(gradeOrder(order('in_transit'), [])).rejects.toThrow(/Only orders we have received/);
+    await expect(gradeOrder(order('received'), [
+      { cardId: 1, condition: 'toString' as CardCondition },
+      { cardId: 2, condition: 'Near Mint' }
+    ])).rejects.toThrow(/Unknown condition "toString"/);
+  });
+});
+
+describe('decideAdjustment', () => {
+  const adjusted = async () => gradeOrder(order('received'), [
+    { cardId: 1, condition: 'Heavily Played' },
+    { cardId: 2, condition: 'Lightly Played' }
+  ]);
+
+  it('moves the payment to the adjusted total on accept', async () => {
+    const decided = decideAdjustment(await adjusted(), 'accept');
+    expect(decided.adjustment?.decision).toBe('accepted');
+    expect(decided.estimatedPayment.amount).toBe(decided.adjustment?.adjustedTotal);
+  });
+
+  it('records either answer in the history', async () => {
+    const accepted = decideAdjustment(await adjusted(), 'accept');
+    expect(accepted.history.at(-1)).toMatchObject({ status: 'adjusted', note: 'Seller accepted the adjusted offer' });
+
+    const returned = decideAdjustment(await adjusted(), 'return');
+    expect(returned.history.at(-1)).toMatchObject({ status: 'returned', note: 'Seller declined the adjusted offer' });
+  });
+
+  it('returns every card on return', async () => {
+    const decided = decideAdjustment(await adjusted(), 'return');
+    expect(decided.status).toBe('returned');
+    expect(decided.cards.every(card => card.outcome === 'returned')).toBe(true);
+  });
+
+  it('only answers a pending adjustment once', async () => {
+    const decided = decideAdjustment(await adjusted(), 'accept');
+    expect(() => decideAdjustment(decided, 'return')).toThrow(/no adjusted offer waiting/);
+  });
+});
+
+describe('updateOrderStatus', () => {
+  it('lets staff set only the manual statuses', () => {
+    expect(updateOrderStatus(order('label_issued'), 'received').status).toBe('received');
+    expect(() => updateOrderStatus(order('received'), 'graded')).toThrow(/by hand/);
+  });
+});
+
+describe('toPublicOrder', () => {
+  it('hides the street address and most of the email', () => {
+    const shown = toPublicOrder(order('received'));
+    expect(shown.customer).toEqual({ name: 'Ash Ketchum', email: 'a***@example.com', city: 'Pallet Town', state: 'KA' });
+    expect(JSON.stringify(shown)).not.toContain('1 Route');
+  });
+});
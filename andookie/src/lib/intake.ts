@@ -0,0 +1,156 @@
+// src/lib/intake.ts
+
+import {
+  AdjustmentDecisionRequest,
+  CardGrade,
+  Order,
+  OrderCard,
+  OrderStatus
+} from './types';
+import { isCardCondition, ValidationError } from './errors';
+import { getCardRepository } from './catalog';
+import { getPricingService } from './pricing';
+import { transitionOrder } from './orders';
+
+// Statuses staff set by hand; grading and the seller's decision drive the rest
+export const STAFF_STATUS_UPDATES: OrderStatus[] = ['in_transit', 'received', 'paid', 'returned'];
+
+const sumOffers = (cards: OrderCard[], offer: (card: OrderCard) => number): number => {
+  return Math.round(cards.reduce((sum, card) => sum + offer(card) * card.quantity, 0) * 100) / 100;
+};
+
+/**
+ * Apply staff grades to a received order and re-price every card for the
+ * condition it actually arrived in. If the total changes, the order waits
+ * on the seller to accept the adjusted offer or ask for their cards back.
+ */
+export const gradeOrder = async (order: Order, grades: CardGrade[]): Promise<Order> => {
+  if (order.status !== 'received') {
+    throw new ValidationError('Only orders we have received can be graded', 'status');
+  }
+
+  if (!Array.isArray(grades)) {
+    throw new ValidationError('Grades are required', 'grades');
+  }
+
+  const gradesByCard = new Map<number, CardGrade>();
+  for (const grade of grades) {
+    if (!order.cards.some(card => card.id === grade.cardId)) {
+      throw new ValidationError(`Card ${grade.cardId} isn't part of order ${order.id}`, 'grades');
+    }
+    if (!isCardCondition(grade.condition)) {
+      throw new ValidationError(`Unknown condition "${grade.condition}"`, 'grades');
+    }
+    gradesByCard.set(grade.cardId, grade);
+  }
+
+  const repository = getCardRepository();
+  const pricing = await getPricingService();
+
+  const cards = await Promise.all(order.cards.map(async (card): Promise<OrderCard> => {
+    const grade = gradesByCard.get(card.id);
+    if (!grade) {
+      throw new ValidationError(`"${card.name}" hasn't been graded yet`, 'grades');
+    }
+
+    const entry = card.catalogId ? await repository.findById(card.catalogId) : null;
+    const quote = pricing.regrade(card, grade.condition, entry?.rarity);
+    const adjusted = grade.condition !== card.condition;
+
+    return {
+      ...card,
+      outcome: adjusted ? 'adjusted' : 'accepted',
+      gradedCondition: grade.condition,
+      gradeNote: grade.note?.trim() || undefined,
+      // A card that matches its listing keeps exactly what we offered
+      adjustedMarketPrice: adjusted ? quote.marketPrice : card.marketPrice,
+      adjustedOffer: adjusted ? quote.ourOffer : card.ourOffer
+    };
+  }));
+
+  const originalTotal = order.totalOffer;
+  const adjustedTotal = sumOffers(cards, card => card.adjustedOffer ?? card.ourOffer);
+  const adjustedCount = cards.filter(card => card.outcome === 'adjusted').length;
+
+  let graded = transitionOrder(
+    { ...order, cards },
+    'graded',
+    adjustedCount > 0 ? `${adjustedCount} card${adjustedCount === 1 ? '' : 's'} graded differently than listed` : 'All cards match their listing'
+  );
+
+  if (adjustedTotal === originalTotal) {
+    return graded;
+  }
+
+  graded = transitionOrder(
+    graded,
+    'adjusted',
+    `Offer changed from $${originalTotal.toFixed(2)} to $${adjustedTotal.toFixed(2)}`
+  );
+
+  return {
+    ...graded,
+    adjustment: {
+      originalTotal,
+      adjustedTotal,
+      difference: Math.round((adjustedTotal - originalTotal) * 100) / 100,
+      decision: 'pending',
+      gradedAt: graded.updatedAt
+    }
+  };
+};
+
+/**
+ * Record the seller's answer to an adjusted offer: accepting moves the
+ * payment to the adjusted total, a return sends every card back
+ */
+export const decideAdjustment = (order: Order, decision: AdjustmentDecisionRequest['decision']): Order => {
+  if (order.status !== 'adjusted' || order.adjustment?.decision !== 'pending') {
+    throw new ValidationError('This order has no adjusted offer waiting on you', 'decision');
+  }
+
+  const decidedAt = new Date();
+
+  if (decision === 'accept') {
+    return {
+      ...order,
+      history: [...order.history, { status: order.status, at: decidedAt, note: 'Seller accepted the adjusted offer' }],
+      adjustment: { ...order.adjustment, decision: 'accepted', decidedAt },
+      estimatedPayment: { ...order.estimatedPayment, amount: order.adjustment.adjustedTotal },
+      updatedAt: decidedAt
+    };
+  }
+
+  if (decision === 'return') {
+    const returned = transitionOrder(order, 'returned', 'Seller declined the adjusted offer');
+    return {
+      ...returned,
+      cards: returned.cards.map(card => ({ ...card, outcome: 'returned' })),
+      adjustment: { ...order.adjustment, decision: 'return_requested', decidedAt }
+    };
+  }
+
+  throw new ValidationError('Decision must be "accept" or "return"', 'decision');
+};
+
+/**
+ * Staff status changes outside of grading, e.g. checking a package in or
+ * marking it paid
+ */
+export const updateOrderStatus = (order: Order, status: OrderStatus, note?: string): Order => {
+  if (!STAFF_STATUS_UPDATES.includes(status)) {
+    throw new ValidationError(`Orders can't be set to "${status}" by hand`, 'status');
+  }
+
+  if (order.adjustment?.decision === 'pending') {
+    throw new ValidationError('The seller hasn\'t answered the adjusted offer yet', 'status');
+  }
+
+  const updated = transitionOrder(order, status, note?.trim() || undefined);
+
+  if (status === 'returned') {
+    return { ...updated, cards: updated.cards.map(card => ({ ...card, outcome: 'returned' })) };
+  }
+
+  return updated;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { CardMatcher, levenshtein, normalizeText, tokenize, tokenSimilarity } from './matching';
+import { SetRegistry } from './sets';
+import { CardDatabaseEntry, SetInfo } from './types';
+
+const entry = (id: string, name: string, set: string, setCode: string, number: string): CardDatabaseEntry => ({
+  id, name, set, setCode, number,
+  rarity: 'Rare',
+  marketPrice: 10,
+  lastUpdated: new Date('2024-01-01'),
+  variants: ['Near Mint']
+});
+
+const catalog = [
+  entry('bs-4', 'Charizard', 'Base Set', 'BS', '4/102'),
+  entry('bs-2', 'Blastoise', 'Base Set', 'BS', '2/102'),
+  entry('b2-4', 'Charizard', 'Base Set 2', 'B2', '4/130'),
+  entry('cpa-19', 'Charizard V', "Champion's Path", 'CPA', '019/073'),
+  entry('viv-44', 'Pikachu VMAX', 'Vivid Voltage', 'VIV', '044/185')
+];
+
+const sets: SetInfo[] = [
+  { name: 'Base Set', code: 'BS', aliases: ['base', 'base1'], releaseDate: new Date('1999-01-09'), printedTotal: 102 },
+  { name: 'Base Set 2', code: 'B2', aliases: ['base4'], releaseDate: new Date('2000-02-24'), printedTotal: 130 },
+  { name: "Champion's Path", code: 'CPA', aliases: [], releaseDate: new Date('2020-09-25'), printedTotal: 73 },
+  { name: 'Vivid Voltage', code: 'VIV', aliases: ['vivid', 'swsh4'], releaseDate: new Date('2020-11-13'), printedTotal: 185 }
+];
+
+describe('normalizeText and tokenize', () => {
+  it('strips accents, apostrophes and punctuation', () => {
+    expect(normalizeText("Pokémon Champion's Path!")).toBe('pokemon champions path');
+  });
+
+  it('drops stop words and expands aliases', () => {
+    expect(tokenize('Zard 1st Edition Holo')).toEqual(['charizard']);
+    expect(tokenize('DCE')).toEqual(['double', 'colorless', 'energy']);
+  });
+});
+
+describe('token similarity', () => {
+  it('counts edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+  });
+
+  it('only matches short tokens exactly', () => {
+    expect(tokenSimilarity('v', 'ex')).toBe(0);
+    expect(tokenSimilarity('vmax', 'vmax')).toBe(1);
+    expect(tokenSimilarity('charizrd', 'charizard')).toBeGreaterThan(0.75);
+  });
+});
+
+describe('CardMatcher', () => {
+  const matcher = new CardMatcher(catalog, new SetRegistry(sets));
+
+  it('finds a misspelled name', () => {
+    const [best] = matcher.match('Charzard base set');
+    expect(best.entry.id).toBe('bs-4');
+    expect(best.strategy).toBe('name');
+  });
+
+  it('looks up a collector number and set total first', () => {
+    const [best] = matcher.match('Charizard', { cardNumber: '4/130' });
+    expect(best.entry.id).toBe('b2-4');
+    expect(best.strategy).toBe('number');
+    expect(best.numberScore).toBe(1);
+  });
+
+  it('ignores leading zeros in collector numbers', () => {
+    const [best] = matcher.match('', { cardNumber: '44/185' });
+    expect(best.entry.id).toBe('viv-44');
+  });
+
+  it('ranks the set the seller named above a closer name elsewhere', () => {
+    const matches = matcher.match('Charizard base4');
+    expect(matches[0].entry.id).toBe('b2-4');
+  });
+
+  it('resolves set aliases through the registry', () => {
+    const [best] = matcher.match('Pikachu VMAX swsh4');
+    expect(best.entry.id).toBe('viv-44');
+    expect(best.setScore).toBe(1);
+  });
+
+  it('returns nothing for unrelated text', () => {
+    expect(matcher.match('Totally unrelated words')).toEqual([]);
+  });
+
+  it('rejects a number that disagrees with the name written', () => {
+    const matches = matcher.match('Blastoise', { cardNumber: '4/102' });
+    expect(matches[0].entry.id).toBe('bs-2');
+    expect(matches.every(match => match.strategy === 'name')).toBe(true);
+  });
+});
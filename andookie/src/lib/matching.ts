@@ -0,0 +1,313 @@
+// src/lib/matching.ts
+
+import { CardDatabaseEntry, MatchCandidate, MatchStrategy } from './types';
+import { SetRegistry } from './sets';
+
+// Common misspellings and nicknames sellers use, keyed by the normalized token
+export const NAME_ALIASES: Record<string, string> = {
+  'zard': 'charizard',
+  'charzard': 'charizard',
+  'charizrd': 'charizard',
+  'chazard': 'charizard',
+  'blastiose': 'blastoise',
+  'blastois': 'blastoise',
+  'venasaur': 'venusaur',
+  'venosaur': 'venusaur',
+  'pikachoo': 'pikachu',
+  'pickachu': 'pikachu',
+  'pikachew': 'pikachu',
+  'alakazham': 'alakazam',
+  'allakazam': 'alakazam',
+  'gyrados': 'gyarados',
+  'gyarodos': 'gyarados',
+  'mew2': 'mewtwo',
+  'dce': 'double colorless energy',
+  'pluspwr': 'pluspower'
+};
+
+// Words that say nothing about which card it is
+const STOP_WORDS = new Set([
+  'the', 'a', 'card', 'holo', 'holofoil', 'reverse', 'foil', 'rev',
+  '1st', 'first', 'edition', 'ed', 'shadowless', 'unlimited'
+]);
+
+// Tokens this short are only ever matched exactly ("v" must not match "ex")
+const MIN_FUZZY_LENGTH = 4;
+
+// Below this a token pair is treated as unrelated
+const TOKEN_MATCH_THRESHOLD = 0.75;
+
+const SCORE_WEIGHTS = {
+  name: 0.55,
+  explained: 0.25,
+  set: 0.1,
+  number: 0.1
+};
+
+export interface MatchOptions {
+  cardNumber?: string;
+  limit?: number;
+  minScore?: number;
+}
+
+interface IndexedEntry {
+  entry: CardDatabaseEntry;
+  nameTokens: string[];
+  setTokens: string[];
+  setCode: string;
+  // Words that name the entry's set: its code and registry aliases
+  setAliases: Set<string>;
+}
+
+// A description broken down once for scoring against every entry
+interface ParsedQuery {
+  tokens: string[];
+  cardNumber?: string;
+  // Lowercase codes of the sets the description names, however it names them
+  setCodes: Set<string>;
+}
+
+export const normalizeText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents (Pokémon -> Pokemon)
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9/#]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Split text into normalized tokens, expanding known aliases
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const token of normalizeText(text).split(' ')) {
+    if (!token || STOP_WORDS.has(token)) continue;
+    const alias = NAME_ALIASES[token];
+    tokens.push(...(alias ? alias.split(' ') : [token]));
+  }
+  return tokens;
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const trigrams = (token: string): Set<string> => {
+  const padded = `  ${token} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+export const trigramSimilarity = (a: string, b: string): number => {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  gramsA.forEach(gram => {
+    if (gramsB.has(gram)) shared++;
+  });
+  return (2 * shared) / (gramsA.size + gramsB.size);
+};
+
+/**
+ * Similarity of two tokens in [0, 1], combining edit distance and trigrams
+ */
+export const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < MIN_FUZZY_LENGTH || b.length < MIN_FUZZY_LENGTH) return 0;
+
+  const editSimilarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return Math.max(editSimilarity, trigramSimilarity(a, b));
+};
+
+const bestSimilarity = (token: string, candidates: string[]): number => {
+  let best = 0;
+  for (const candidate of candidates) {
+    const similarity = tokenSimilarity(token, candidate);
+    if (similarity > best) best = similarity;
+    if (best === 1) break;
+  }
+  return best >= TOKEN_MATCH_THRESHOLD ? best : 0;
+};
+
+const average = (values: number[]): number => {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// "044/185", "44/185" and "#44" should all compare equal on the collector part
+const splitCardNumber = (number: string): { collector: string; total?: string } => {
+  const [collector, total] = number.replace('#', '').split('/');
+  return {
+    collector: collector.trim().replace(/^0+(?=\w)/, '').toLowerCase(),
+    total: total?.trim().replace(/^0+(?=\d)/, '')
+  };
+};
+
+const scoreNumber = (query: string | undefined, entryNumber: string): number => {
+  if (!query) return 0;
+
+  const wanted = splitCardNumber(query);
+  const actual = splitCardNumber(entryNumber);
+
+  if (wanted.collector !== actual.collector) return 0;
+  if (!wanted.total) return 0.8;
+  return wanted.total === actual.total ? 1 : 0;
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Ranks catalog entries against free-form card descriptions. A printed
+ * collector number with its set total (or a set code) is looked up directly
+ * first, since it all but identifies the printing; only when that finds
+ * nothing do we fall back to fuzzy matching on card and set names. With a
+ * set registry, "Vivid", "VIV" and "swsh4" all count as naming Vivid Voltage.
+ */
+export class CardMatcher {
+  private index: IndexedEntry[];
+  private byCollector = new Map<string, IndexedEntry[]>();
+  private sets?: SetRegistry;
+
+  constructor(catalog: CardDatabaseEntry[], sets?: SetRegistry) {
+    this.sets = sets;
+    this.index = catalog.map(entry => {
+      const set = sets?.resolve(entry.setCode);
+      const aliases = set ? [set.code, ...set.aliases].flatMap(tokenize) : [];
+      return {
+        entry,
+        nameTokens: tokenize(entry.name),
+        setTokens: tokenize(entry.set),
+        setCode: entry.setCode.toLowerCase(),
+        setAliases: new Set([entry.setCode.toLowerCase(), ...aliases])
+      };
+    });
+
+    for (const indexed of this.index) {
+      const { collector } = splitCardNumber(indexed.entry.number);
+      this.byCollector.set(collector, [...(this.byCollector.get(collector) || []), indexed]);
+    }
+  }
+
+  match(query: string, options: MatchOptions = {}): MatchCandidate[] {
+    const { cardNumber, limit = 5, minScore = 0.5 } = options;
+    const tokens = tokenize(query).filter(token => !/^[#\d/]+$/.test(token));
+    const parsed: ParsedQuery = {
+      tokens,
+      cardNumber,
+      setCodes: new Set([
+        ...tokens,
+        ...(this.sets?.findMentions(query) || []).map(set => set.code.toLowerCase())
+      ])
+    };
+
+    const byNumber = cardNumber ? this.matchByNumber(parsed, cardNumber) : [];
+    const seen = new Set(byNumber.map(candidate => candidate.entry.id));
+
+    // Name matches still fill out the list as runner-ups for the seller to pick from
+    const byName = tokens.length === 0 ? [] : this.index
+      .filter(indexed => !seen.has(indexed.entry.id))
+      .map(indexed => this.score(indexed, parsed, 'name'))
+      .filter((candidate): candidate is MatchCandidate => candidate !== null && candidate.score >= minScore);
+
+    // A set the seller named outranks a closer name from some other set
+    const inNamedSet = byName.filter(candidate => parsed.setCodes.has(candidate.entry.setCode.toLowerCase()));
+    const elsewhere = byName.filter(candidate => !inNamedSet.includes(candidate));
+
+    return [
+      ...sortCandidates(byNumber),
+      ...sortCandidates(inNamedSet),
+      ...sortCandidates(elsewhere)
+    ].slice(0, limit);
+  }
+
+  /**
+   * Entries printed with this collector number, narrowed by the set total
+   * and any set code in the query. A bare collector number is shared by
+   * too many sets to go on alone.
+   */
+  private matchByNumber(query: ParsedQuery, cardNumber: string): MatchCandidate[] {
+    const wanted = splitCardNumber(cardNumber);
+    const mentionedCodes = query.setCodes;
+
+    const printings = (this.byCollector.get(wanted.collector) || []).filter(indexed => {
+      if (wanted.total && splitCardNumber(indexed.entry.number).total !== wanted.total) return false;
+      if (!wanted.total && !mentionedCodes.has(indexed.setCode)) return false;
+      return true;
+    });
+
+    // When a set code is given, it picks between sets that share a total
+    const withCode = printings.filter(indexed => mentionedCodes.has(indexed.setCode));
+
+    return (withCode.length > 0 ? withCode : printings)
+      .map(indexed => this.score(indexed, query, 'number'))
+      .filter((candidate): candidate is MatchCandidate => candidate !== null);
+  }
+
+  private score(
+    indexed: IndexedEntry,
+    query: ParsedQuery,
+    strategy: MatchStrategy
+  ): MatchCandidate | null {
+    const { tokens: queryTokens, cardNumber } = query;
+    const nameScore = average(indexed.nameTokens.map(token => bestSimilarity(token, queryTokens)));
+
+    const setMentioned = query.setCodes.has(indexed.setCode);
+    const setScore = setMentioned || strategy === 'number'
+      ? 1
+      : average(indexed.setTokens.map(token => bestSimilarity(token, queryTokens)));
+
+    // How well each word the seller wrote fits this entry
+    const tokenFits = queryTokens.map(token => {
+      if (indexed.setAliases.has(token)) return 1;
+      return Math.max(
+        bestSimilarity(token, indexed.nameTokens),
+        bestSimilarity(token, indexed.setTokens)
+      );
+    });
+
+    if (strategy === 'name' && nameScore === 0) return null;
+
+    // A number that disagrees with the name the seller wrote is more likely a
+    // typo or misread than the card they meant
+    if (strategy === 'number' && nameScore === 0 && tokenFits.some(fit => fit === 0)) return null;
+
+    const explainedScore = queryTokens.length === 0 ? 1 : average(tokenFits);
+    const numberScore = scoreNumber(cardNumber, indexed.entry.number);
+
+    const score =
+      SCORE_WEIGHTS.name * nameScore +
+      SCORE_WEIGHTS.explained * explainedScore +
+      SCORE_WEIGHTS.set * setScore +
+      SCORE_WEIGHTS.number * numberScore;
+
+    return {
+      entry: indexed.entry,
+      score: round(score),
+      nameScore: round(nameScore),
+      setScore: round(setScore),
+      numberScore,
+      strategy
+    };
+  }
+}
+
+const sortCandidates = (candidates: MatchCandidate[]): MatchCandidate[] => {
+  return candidates.sort((a, b) => b.score - a.score || b.nameScore - a.nameScore);
+};
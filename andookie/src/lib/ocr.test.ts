@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { OCRService } from './ocr';
+import { OCRProvider } from './ocrProviders';
+import { selectLayouts, toPixels } from './cardLayouts';
+import { OCRResult } from './types';
+
+const FIXTURE_IMAGE = path.join(process.cwd(), 'data', 'fixtures', 'ocr', 'base-set-row.png');
+
+// Hands back the given words for any photo, as read from the upload
+const providerReading = (results: OCRResult[]): OCRProvider => ({
+  name: 'test',
+  readsOriginal: true,
+  recognize: async () => results
+});
+
+const line = (texts: string[], y: number): OCRResult[] => {
+  let x = 20;
+  return texts.map(text => {
+    const width = text.length * 12;
+    const result = { text, confidence: 0.95, boundingBox: { x, y, width, height: 16 } };
+    x += width + 8;
+    return result;
+  });
+};
+
+const read = async (results: OCRResult[]) => {
+  const service = new OCRService(providerReading(results));
+  return service.processImage(await fs.readFile(FIXTURE_IMAGE));
+};
+
+describe('OCRService card extraction', () => {
+  it('reads one card per region of a photo', async () => {
+    const fixture = JSON.parse(await fs.readFile(path.join(path.dirname(FIXTURE_IMAGE), 'results.json'), 'utf-8'));
+    const [recorded] = Object.values(fixture.images) as Array<{ results: OCRResult[] }>;
+    const { cardDetections } = await read(recorded.results);
+
+    expect(cardDetections.map(detection => [detection.cardName, detection.cardNumber, detection.setName])).toEqual([
+      ['Blastoise', '2/102', 'Base Set'],
+      ['Charizard', '4/102', 'Base Set'],
+      ['Venusaur', '15/102', 'Base Set']
+    ]);
+    expect(cardDetections.every(detection => /^[0-9a-f]{16}$/.test(detection.imageHash!))).toBe(true);
+  });
+
+  it('takes the name from the top line, without the stage label and HP', async () => {
+    const { cardDetections: [detection] } = await read([
+      ...line(['Stage', '2', 'Charizard', '120', 'HP'], 20),
+      ...line(['Fire', 'Spin'], 160),
+      ...line(['4/102'], 260)
+    ]);
+    expect(detection.cardName).toBe('Charizard');
+    expect(detection.cardNumber).toBe('4/102');
+  });
+
+  it('does not read printed HP as a condition', async () => {
+    const { cardDetections: [detection] } = await read([
+      ...line(['Blastoise', '100', 'HP'], 20),
+      ...line(['2/102'], 260)
+    ]);
+    expect(detection.condition).toBeUndefined();
+  });
+
+  it('does not read HP printed before its number, or stray abbreviations, as a condition', async () => {
+    const { cardDetections: [detection] } = await read([
+      ...line(['Charizard', 'VMAX', 'HP', '330'], 20),
+      ...line(['Max', 'Lp', 'Burn'], 160),
+      ...line(['074/073'], 260)
+    ]);
+    expect(detection.condition).toBeUndefined();
+  });
+
+  it('reads a condition spelled out on a note photographed with the card', async () => {
+    const { cardDetections: [detection] } = await read([
+      ...line(['Blastoise', '100', 'HP'], 20),
+      ...line(['Lightly', 'Played'], 160),
+      ...line(['2/102'], 260)
+    ]);
+    expect(detection.condition).toBe('Lightly Played');
+  });
+});
+
+describe('OCRService layout regions', () => {
+  // A blank white card lying square on a dark table
+  const cardPhoto = () => sharp({ create: { width: 900, height: 1000, channels: 3, background: '#303030' } })
+    .composite([{
+      input: { create: { width: 500, height: 700, channels: 3, background: '#f4f4f4' } },
+      left: 200,
+      top: 150
+    }])
+    .png()
+    .toBuffer();
+
+  it('reads the name and number again from where the layout prints them', async () => {
+    const calls: Array<{ width: number; height: number }> = [];
+    const answers = [
+      // The whole card: nothing legible
+      [{ text: '~', confidence: 0.2, boundingBox: { x: 300, y: 500, width: 10, height: 10 } }],
+      // Name region, then number region, each cut out on their own
+      [{ text: 'Charizard', confidence: 0.9, boundingBox: { x: 40, y: 30, width: 180, height: 40 } }],
+      [{ text: '4/102', confidence: 0.9, boundingBox: { x: 40, y: 30, width: 90, height: 30 } }]
+    ];
+    const provider: OCRProvider = {
+      name: 'test',
+      recognize: async buffer => {
+        const { width, height } = await sharp(buffer).metadata();
+        calls.push({ width: width!, height: height! });
+        return answers[calls.length - 1] || [];
+      }
+    };
+
+    const { cardDetections } = await new OCRService(provider).processImage(await cardPhoto());
+
+    expect(cardDetections).toHaveLength(1);
+    expect(cardDetections[0]).toMatchObject({ cardName: 'Charizard', cardNumber: '4/102' });
+    // The straightened card, then two crops of it
+    expect(calls[0].height).toBeGreaterThan(calls[0].width);
+    expect(calls.slice(1).every(call => call.width < calls[0].width * 2 && call.height < calls[0].height / 4)).toBe(true);
+  });
+});
+
+describe('card layouts', () => {
+  it('uses the era of a known set', () => {
+    const layouts = selectLayouts({ name: 'Vivid Voltage', code: 'VIV', aliases: [], releaseDate: new Date('2020-11-13'), printedTotal: 185 });
+    expect(layouts.map(layout => layout.id)).toEqual(['swsh']);
+  });
+
+  it('narrows the eras by where a number was seen', () => {
+    const bottomRight = selectLayouts(undefined, { x: 0.8, y: 0.94 });
+    expect(bottomRight.map(layout => layout.id)).toEqual(['bw-sm', 'dp', 'ex', 'wotc']);
+    expect(selectLayouts()).toHaveLength(6);
+  });
+
+  it('converts relative regions to pixels', () => {
+    expect(toPixels({ x: 0.1, y: 0.5, width: 0.25, height: 0.1 }, 800, 1120)).toEqual({ x: 80, y: 560, width: 200, height: 112 });
+  });
+});
@@ -1,44 +1,33 @@
 import { 
     OCRResult, 
+    BoundingBox,
     CardDetection, 
     ImageProcessingResult, 
-    CardCondition 
+    CardCondition,
+    SetInfo
   } from './types';
+  import { getSetRegistry, SetRegistry } from './sets';
+  import { CardRegion, COLLECTOR_NUMBER, groupCardRegions } from './cardRegions';
+  import { CardLayout, selectLayouts, toPixels } from './cardLayouts';
+  import { createOCRProvider, OCRProvider } from './ocrProviders';
+  import { cropImage, PreprocessedImage, preprocessImage } from './imagePreprocessing';
+  import { perceptualHash } from './imageHash';
   import { 
-    OCRError, 
     InvalidImageError, 
-    APIError,
-    retryWithBackoff,
     logError 
   } from './errors';
   
-  // Google Vision API types
-  interface GoogleVisionTextAnnotation {
-    description: string;
-    boundingPoly: {
-      vertices: Array<{ x: number; y: number }>;
-    };
-  }
-  
-  interface GoogleVisionResponse {
-    textAnnotations: GoogleVisionTextAnnotation[];
-    error?: {
-      code: number;
-      message: string;
-    };
-  }
+  // Printed around a card's name on its top line, but never part of it
+  const NAME_LINE_FURNITURE = new Set([
+    'basic', 'stage', 'evolves', 'from', 'hp', 'lv', 'level',
+    'trainer', 'supporter', 'item', 'stadium', 'tool'
+  ]);
   
   export class OCRService {
-    private apiKey: string;
-    private apiUrl: string;
+    private provider: OCRProvider;
   
-    constructor() {
-      this.apiKey = process.env.GOOGLE_VISION_API_KEY || '';
-      this.apiUrl = 'https://vision.googleapis.com/v1/images:annotate';
-      
-      if (!this.apiKey) {
-        console.warn('Google Vision API key not found. OCR will use mock data.');
-      }
+    constructor(provider: OCRProvider = createOCRProvider()) {
+      this.provider = provider;
     }
   
     async processImage(imageBuffer: Buffer): Promise<ImageProcessingResult> {
@@ -48,26 +37,52 @@ import {
         // Validate image
         this.validateImage(imageBuffer);
         
-        // Use mock data if no API key
-        if (!this.apiKey) {
-          return this.getMockOCRResult();
-        }
+        // Upright, straightened and scaled down, unless the provider wants the upload
+        const image = this.provider.readsOriginal ? null : await preprocessImage(imageBuffer);
         
-        // Call Google Vision API
-        const ocrResults = await this.callGoogleVisionAPI(imageBuffer);
+        // Read the words in the photo
+        const ocrResults = await this.provider.recognize(image ? image.buffer : imageBuffer);
         
         // Extract card information from OCR results
-        const cardDetections = this.extractCardInfo(ocrResults);
+        const sets = await getSetRegistry();
+        let cardDetections = this.extractCardInfo(ocrResults, sets);
+        
+        // A single straightened card: read its name and number again from
+        // where its layout prints them
+        if (image?.cardCorners && image.height > image.width && cardDetections.length <= 1) {
+          const detection = await this.readLayoutRegions(image, ocrResults, sets);
+          cardDetections = detection ? [detection] : cardDetections;
+        }
+        
+        // A card with no readable text can still be recognised by its picture
+        if (image?.card && cardDetections.length === 0) {
+          cardDetections = [{ confidence: 0, boundingBox: { x: 0, y: 0, width: image.width, height: image.height } }];
+        }
+        
+        // Positions go back onto the photo as the seller uploaded it
+        const toOriginal = <T extends { boundingBox?: BoundingBox }>(item: T): T => (
+          image && item.boundingBox ? { ...item, boundingBox: image.toOriginal(item.boundingBox) } : item
+        );
+        
+        // Fingerprint each card's picture: the straightened card when there
+        // is one, otherwise its region of the photo
+        const hashed = await Promise.all(cardDetections.map(toOriginal).map(async detection => ({
+          ...detection,
+          imageHash: image?.card && cardDetections.length === 1
+            ? await perceptualHash(image.card)
+            : await perceptualHash(imageBuffer, detection.boundingBox)
+        })));
         
         return {
-          cardDetections,
-          ocrResults,
+          cardDetections: hashed,
+          ocrResults: ocrResults.map(toOriginal),
           processingTime: Date.now() - startTime
         };
         
       } catch (error) {
         logError(error as Error, { 
           service: 'OCR',
+          provider: this.provider.name,
           processingTime: Date.now() - startTime 
         });
         throw error;
@@ -96,131 +111,146 @@ import {
       }
     }
   
-    private async callGoogleVisionAPI(imageBuffer: Buffer): Promise<OCRResult[]> {
-      const base64Image = imageBuffer.toString('base64');
+    /**
+     * One detection per card in the photo: the words are grouped into card
+     * regions first, so names, sets and numbers are only paired up within a
+     * card and each detection gets its own bounding box
+     */
+    private extractCardInfo(ocrResults: OCRResult[], sets: SetRegistry): CardDetection[] {
+      return groupCardRegions(ocrResults)
+        .map(region => this.extractRegionInfo(region, sets))
+        .filter(detection => detection.cardName || detection.cardNumber);
+    }
+  
+    /**
+     * Crop the name and number regions of each layout the card could be
+     * printed in and OCR them on their own, keeping the first layout that
+     * gives a name or a number. The era comes from the set, or else from
+     * where the whole-card pass saw a collector number.
+     */
+    private async readLayoutRegions(
+      image: PreprocessedImage,
+      ocrResults: OCRResult[],
+      sets: SetRegistry
+    ): Promise<CardDetection | null> {
+      const region: CardRegion = {
+        boundingBox: { x: 0, y: 0, width: image.width, height: image.height },
+        results: ocrResults
+      };
+      const { setName } = this.extractRegionInfo(region, sets);
+      const set = setName ? sets.resolve(setName) || undefined : undefined;
       
-      const requestBody = {
-        requests: [{
-          image: { content: base64Image },
-          features: [
-            { type: 'TEXT_DETECTION', maxResults: 50 },
-            { type: 'DOCUMENT_TEXT_DETECTION', maxResults: 50 }
-          ]
-        }]
+      const numberWord = region.results.find(result => COLLECTOR_NUMBER.test(result.text.trim()) && result.boundingBox);
+      const numberAt = numberWord?.boundingBox && {
+        x: (numberWord.boundingBox.x + numberWord.boundingBox.width / 2) / image.width,
+        y: (numberWord.boundingBox.y + numberWord.boundingBox.height / 2) / image.height
       };
       
-      const response = await retryWithBackoff(async () => {
-        const result = await fetch(`${this.apiUrl}?key=${this.apiKey}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        });
+      for (const layout of selectLayouts(set, numberAt)) {
+        const name = await this.readRegion(image, layout, 'nameRegion');
+        const number = await this.readRegion(image, layout, 'numberRegion');
+        const detection = this.extractRegionInfo(region, sets, { name, number });
         
-        if (!result.ok) {
-          throw new APIError(`Google Vision API error: ${result.status} ${result.statusText}`);
+        if (this.nameText(this.nameWords(name)) || number.some(result => COLLECTOR_NUMBER.test(result.text.trim()))) {
+          return detection;
         }
-        
-        return result.json();
-      });
-      
-      const visionResponse = response.responses[0] as GoogleVisionResponse;
-      
-      if (visionResponse.error) {
-        throw new OCRError(`Google Vision API error: ${visionResponse.error.message}`);
-      }
-      
-      if (!visionResponse.textAnnotations || visionResponse.textAnnotations.length === 0) {
-        return [];
       }
       
-      return visionResponse.textAnnotations.map(annotation => ({
-        text: annotation.description,
-        confidence: 0.9, // Google Vision doesn't provide confidence scores for text detection
-        boundingBox: this.convertBoundingBox(annotation.boundingPoly)
-      }));
+      return null;
     }
   
-    private convertBoundingBox(boundingPoly: any): { x: number; y: number; width: number; height: number } {
-      const vertices = boundingPoly.vertices;
-      if (!vertices || vertices.length < 4) {
-        return { x: 0, y: 0, width: 0, height: 0 };
-      }
-      
-      const xs = vertices.map((v: any) => v.x || 0);
-      const ys = vertices.map((v: any) => v.y || 0);
-      
-      const minX = Math.min(...xs);
-      const maxX = Math.max(...xs);
-      const minY = Math.min(...ys);
-      const maxY = Math.max(...ys);
-      
-      return {
-        x: minX,
-        y: minY,
-        width: maxX - minX,
-        height: maxY - minY
-      };
+    private async readRegion(
+      image: PreprocessedImage,
+      layout: CardLayout,
+      field: 'nameRegion' | 'numberRegion'
+    ): Promise<OCRResult[]> {
+      const box = toPixels(layout[field], image.width, image.height);
+      const crop = await cropImage(image.buffer, box);
+      
+      // Back into the card's coordinates
+      return (await this.provider.recognize(crop.buffer)).map(result => ({
+        ...result,
+        boundingBox: result.boundingBox && {
+          x: box.x + (result.boundingBox.x - crop.margin) / crop.scale,
+          y: box.y + (result.boundingBox.y - crop.margin) / crop.scale,
+          width: result.boundingBox.width / crop.scale,
+          height: result.boundingBox.height / crop.scale
+        }
+      }));
     }
   
-    private extractCardInfo(ocrResults: OCRResult[]): CardDetection[] {
-      const detections: CardDetection[] = [];
+    /**
+     * The card's name is the top line of its text, once the stage label, HP
+     * and other furniture printed around it are set aside
+     */
+    private nameWords(results: OCRResult[]): OCRResult[] {
+      const words = results.filter(result => {
+        const text = result.text.toLowerCase();
+        return /\p{L}/u.test(text) && !NAME_LINE_FURNITURE.has(text.replace(/[^a-z]/g, ''));
+      });
       
-      if (ocrResults.length === 0) {
-        return detections;
+      const positioned = words.filter(word => word.boundingBox && word.boundingBox.height > 0);
+      // Without positions there's no telling lines apart; the first word will have to do
+      if (positioned.length < words.length) {
+        return words.slice(0, 1);
+      }
+      if (positioned.length === 0) {
+        return [];
       }
       
-      // Combine all text for analysis
-      const allText = ocrResults.map(result => result.text).join(' ').toLowerCase();
-      
-      // Common Pokémon card patterns
-      const cardNamePatterns = [
-        /\b(charizard|pikachu|blastoise|venusaur|alakazam|mewtwo|mew|dragonite|gyarados|machamp|gengar|articuno|zapdos|moltres)\b/gi,
-        /\b\w+\s+(v|vmax|gx|ex|prime|star|delta|crystal)\b/gi
-      ];
+      const middle = (word: OCRResult) => word.boundingBox!.y + word.boundingBox!.height / 2;
+      const top = positioned.reduce((best, word) => (middle(word) < middle(best) ? word : best));
+      const lineHeight = top.boundingBox!.height;
       
-      const setPatterns = [
-        /\b(base set|jungle|fossil|team rocket|gym|neo|e-card|ex|diamond|pearl|platinum|black|white|xy|sun|moon|sword|shield|brilliant|astral|lost|silver|paldea|obsidian|crown|chilling|battle|vivid|darkness|rebel|pokemon go)\b/gi
-      ];
+      return positioned
+        .filter(word => Math.abs(middle(word) - middle(top)) <= lineHeight * 0.75)
+        .sort((a, b) => a.boundingBox!.x - b.boundingBox!.x);
+    }
+  
+    private nameText(words: OCRResult[]): string | undefined {
+      // Keep letters in any script, plus the marks names use (Farfetch'd, Porygon-Z, Mr. Mime)
+      const name = words.map(word => word.text.replace(/[^\p{L}\p{N}'’.\-]/gu, '')).join(' ').trim();
+      return name.length >= 3 ? name : undefined;
+    }
+  
+    private extractRegionInfo(
+      region: CardRegion,
+      sets: SetRegistry,
+      // Words read from the layout's name and number regions on their own
+      layoutRead?: { name: OCRResult[]; number: OCRResult[] }
+    ): CardDetection {
+      // Combine the card's text for analysis
+      const allText = region.results.map(result => result.text).join(' ').toLowerCase();
       
       const numberPatterns = [
         /\b(\d{1,3}\/\d{1,3})\b/g,
         /\b#(\d{1,3})\b/g
       ];
       
+      // Spelled out only: a card never prints its own condition, but it does
+      // print "HP" (and OCR turns plenty of other marks into "lp" or "mp")
       const conditionPatterns = [
-        /\b(mint|near mint|nm|lightly played|lp|moderately played|mp|heavily played|hp|damaged|poor)\b/gi
+        /\b(near mint|mint|lightly played|moderately played|heavily played|damaged|poor)\b/gi
       ];
       
-      // Extract card names
-      const cardNames: string[] = [];
-      for (const pattern of cardNamePatterns) {
-        const matches = allText.match(pattern);
-        if (matches) {
-          cardNames.push(...matches);
-        }
-      }
-      
-      // Extract sets
-      const sets: string[] = [];
-      for (const pattern of setPatterns) {
-        const matches = allText.match(pattern);
-        if (matches) {
-          sets.push(...matches);
-        }
-      }
+      // The name region when the layout gave one, otherwise the top line
+      const layoutName = this.nameWords(layoutRead?.name || []);
+      const nameWords = layoutName.length > 0 ? layoutName : this.nameWords(region.results);
+      const cardName = this.nameText(nameWords);
       
-      // Extract card numbers
+      // Extract card numbers, from the number region first
       const numbers: string[] = [];
-      for (const pattern of numberPatterns) {
-        const matches = allText.match(pattern);
-        if (matches) {
-          numbers.push(...matches);
+      const numberText = (layoutRead?.number || []).map(result => result.text).join(' ');
+      for (const text of [numberText, allText]) {
+        for (const pattern of numberPatterns) {
+          const matches = text.match(pattern);
+          if (matches) {
+            numbers.push(...matches);
+          }
         }
       }
       
-      // Extract conditions
+      // Extract conditions, from a note or sticker photographed with the card
       const conditions: string[] = [];
       for (const pattern of conditionPatterns) {
         const matches = allText.match(pattern);
@@ -229,23 +259,25 @@ import {
         }
       }
       
-      // Create detections based on found information
-      const maxDetections = Math.max(cardNames.length, 1);
-      
-      for (let i = 0; i < maxDetections; i++) {
-        const detection: CardDetection = {
-          cardName: cardNames[i] || undefined,
-          setName: sets[i] || sets[0] || undefined,
-          cardNumber: numbers[i] || numbers[0] || undefined,
-          condition: this.normalizeCondition(conditions[i] || conditions[0]),
-          confidence: this.calculateConfidence(cardNames[i], sets[i], numbers[i]),
-          boundingBox: ocrResults[0]?.boundingBox // Use first result's bounding box as fallback
-        };
-        
-        detections.push(detection);
+      // The set named on the card; failing that, the set its "/total" number belongs to
+      let set: SetInfo | undefined = sets.findMentions(`${allText} ${numberText}`)[0];
+      if (!set && numbers[0]?.includes('/')) {
+        const candidates = sets.withPrintedTotal(Number(numbers[0].split('/')[1]));
+        set = candidates.length === 1 ? candidates[0] : undefined;
       }
       
-      return detections;
+      const nameConfidence = nameWords.length === 0
+        ? 0
+        : nameWords.reduce((sum, word) => sum + word.confidence, 0) / nameWords.length;
+      
+      return {
+        cardName,
+        setName: set?.name,
+        cardNumber: numbers[0],
+        condition: this.normalizeCondition(conditions[0]),
+        confidence: this.calculateConfidence(cardName, set?.name, numbers[0], nameConfidence),
+        boundingBox: region.boundingBox
+      };
     }
   
     private normalizeCondition(condition?: string): CardCondition | undefined {
@@ -254,16 +286,21 @@ import {
       const normalized = condition.toLowerCase().trim();
       
       if (normalized.includes('mint') && !normalized.includes('near')) return 'Mint';
-      if (normalized.includes('near mint') || normalized === 'nm') return 'Near Mint';
-      if (normalized.includes('lightly played') || normalized === 'lp') return 'Lightly Played';
-      if (normalized.includes('moderately played') || normalized === 'mp') return 'Moderately Played';
-      if (normalized.includes('heavily played') || normalized === 'hp') return 'Heavily Played';
+      if (normalized.includes('near mint')) return 'Near Mint';
+      if (normalized.includes('lightly played')) return 'Lightly Played';
+      if (normalized.includes('moderately played')) return 'Moderately Played';
+      if (normalized.includes('heavily played')) return 'Heavily Played';
       if (normalized.includes('damaged') || normalized.includes('poor')) return 'Heavily Played';
       
       return undefined;
     }
   
-    private calculateConfidence(cardName?: string, setName?: string, cardNumber?: string): number {
+    private calculateConfidence(
+      cardName?: string,
+      setName?: string,
+      cardNumber?: string,
+      nameConfidence: number = 0
+    ): number {
       let confidence = 0;
       
       // Base confidence for having any text
@@ -273,16 +310,8 @@ import {
       if (cardName) {
         confidence += 0.4;
         
-        // Extra boost for known Pokémon names
-        const knownPokemon = [
-          'charizard', 'pikachu', 'blastoise', 'venusaur', 'alakazam', 
-          'mewtwo', 'mew', 'dragonite', 'gyarados', 'machamp', 'gengar',
-          'articuno', 'zapdos', 'moltres'
-        ];
-        
-        if (knownPokemon.some(pokemon => cardName.toLowerCase().includes(pokemon))) {
-          confidence += 0.2;
-        }
+        // Extra boost for a name the OCR read cleanly
+        confidence += 0.2 * nameConfidence;
       }
       
       // Confidence boost for set name
@@ -303,48 +332,6 @@ import {
       // Cap confidence at 1.0
       return Math.min(confidence, 1.0);
     }
-  
-    private getMockOCRResult(): ImageProcessingResult {
-      const mockOCRResults: OCRResult[] = [
-        {
-          text: 'Charizard VMAX',
-          confidence: 0.95,
-          boundingBox: { x: 50, y: 30, width: 200, height: 40 }
-        },
-        {
-          text: 'Champion\'s Path',
-          confidence: 0.88,
-          boundingBox: { x: 50, y: 80, width: 150, height: 25 }
-        },
-        {
-          text: '74/73',
-          confidence: 0.92,
-          boundingBox: { x: 200, y: 300, width: 60, height: 20 }
-        },
-        {
-          text: 'Near Mint',
-          confidence: 0.85,
-          boundingBox: { x: 50, y: 350, width: 100, height: 20 }
-        }
-      ];
-      
-      const mockCardDetections: CardDetection[] = [
-        {
-          cardName: 'Charizard VMAX',
-          setName: 'Champion\'s Path',
-          cardNumber: '74/73',
-          condition: 'Near Mint',
-          confidence: 0.9,
-          boundingBox: { x: 50, y: 30, width: 200, height: 320 }
-        }
-      ];
-      
-      return {
-        cardDetections: mockCardDetections,
-        ocrResults: mockOCRResults,
-        processingTime: 150
-      };
-    }
     
     /**
      * Clean up OCR text by removing common artifacts and normalizing format
@@ -388,4 +375,14 @@ import {
       
       return undefined;
     }
-  }
\ No newline at end of file
+  }
+  
+  let ocrService: OCRService | null = null;
+  
+  // One service per server, so a local OCR engine is only started once
+  export const getOCRService = (): OCRService => {
+    if (!ocrService) {
+      ocrService = new OCRService();
+    }
+    return ocrService;
+  };
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createOCRProvider,
+  DEFAULT_OCR_FIXTURES_PATH,
+  FixtureOCRProvider,
+  GoogleVisionProvider,
+  OCRProvider,
+  TesseractProvider
+} from './ocrProviders';
+import { OCRService } from './ocr';
+import { OCRError } from './errors';
+
+const FIXTURE_IMAGE = path.join(process.cwd(), 'data', 'fixtures', 'ocr', 'base-set-row.png');
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('createOCRProvider', () => {
+  it('uses Google Vision when there is an API key and Tesseract when there is not', () => {
+    vi.stubEnv('OCR_PROVIDER', '');
+    vi.stubEnv('GOOGLE_VISION_API_KEY', 'key');
+    expect(createOCRProvider()).toBeInstanceOf(GoogleVisionProvider);
+
+    vi.stubEnv('GOOGLE_VISION_API_KEY', '');
+    expect(createOCRProvider()).toBeInstanceOf(TesseractProvider);
+  });
+
+  it('takes an explicit choice over the API key', () => {
+    vi.stubEnv('GOOGLE_VISION_API_KEY', 'key');
+    vi.stubEnv('OCR_PROVIDER', 'tesseract');
+    expect(createOCRProvider()).toBeInstanceOf(TesseractProvider);
+
+    vi.stubEnv('OCR_PROVIDER', 'fixture');
+    vi.stubEnv('OCR_FIXTURES_PATH', '');
+    expect(createOCRProvider().name).toBe(`fixture:${path.basename(DEFAULT_OCR_FIXTURES_PATH)}`);
+  });
+
+  it('refuses Google without a key, and providers it does not know', () => {
+    vi.stubEnv('GOOGLE_VISION_API_KEY', '');
+    vi.stubEnv('OCR_PROVIDER', 'google');
+    expect(() => createOCRProvider()).toThrow(/GOOGLE_VISION_API_KEY is not set/);
+
+    vi.stubEnv('OCR_PROVIDER', 'textract');
+    expect(() => createOCRProvider()).toThrow(/expected one of google, tesseract, fixture/);
+  });
+});
+
+describe('GoogleVisionProvider', () => {
+  const visionReply = (body: unknown) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body });
+
+  it('returns each word with its box, skipping the whole-text annotation', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => visionReply({
+      responses: [{
+        textAnnotations: [
+          { description: 'Charizard 4/102', boundingPoly: { vertices: [] } },
+          { description: 'Charizard', boundingPoly: { vertices: [{ x: 10, y: 5 }, { x: 90, y: 5 }, { x: 90, y: 25 }, { x: 10, y: 25 }] } },
+          { description: '4/102', boundingPoly: { vertices: [{ x: 10 }] } }
+        ]
+      }]
+    })));
+
+    const results = await new GoogleVisionProvider('key').recognize(Buffer.from('photo'));
+    expect(results).toEqual([
+      { text: 'Charizard', confidence: 0.9, boundingBox: { x: 10, y: 5, width: 80, height: 20 } },
+      { text: '4/102', confidence: 0.9, boundingBox: { x: 0, y: 0, width: 0, height: 0 } }
+    ]);
+  });
+
+  it('retries a failed request and reports an error in the reply', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+      .mockResolvedValueOnce(visionReply({ responses: [{ textAnnotations: [], error: { code: 3, message: 'Bad image' } }] }));
+    vi.stubGlobal('fetch', fetch);
+
+    const recognizing = new GoogleVisionProvider('key').recognize(Buffer.from('photo'));
+    const failed = expect(recognizing).rejects.toThrow(/Bad image/);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await failed;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FixtureOCRProvider', () => {
+  it('serves the recorded words for a known photo', async () => {
+    const results = await new FixtureOCRProvider(DEFAULT_OCR_FIXTURES_PATH).recognize(await fs.readFile(FIXTURE_IMAGE));
+    expect(results.map(result => result.text)).toContain('Charizard');
+  });
+
+  it('refuses a photo it has no recording of, or a missing fixture file', async () => {
+    await expect(new FixtureOCRProvider(DEFAULT_OCR_FIXTURES_PATH).recognize(Buffer.from('unknown'))).rejects.toBeInstanceOf(OCRError);
+    await expect(new FixtureOCRProvider(path.join(process.cwd(), 'no-such-fixture.json')).recognize(Buffer.from('unknown')))
+      .rejects.toThrow(/doesn't exist/);
+  });
+});
+
+describe('OCRService providers', () => {
+  it('hands a provider that reads originals the upload byte for byte', async () => {
+    const upload = await fs.readFile(FIXTURE_IMAGE);
+    const recognize = vi.fn(async () => []);
+    const provider: OCRProvider = { name: 'stub', readsOriginal: true, recognize };
+
+    await new OCRService(provider).processImage(upload);
+    expect(recognize).toHaveBeenCalledWith(upload);
+  });
+
+  it('passes a provider failure on to the caller', async () => {
+    const provider: OCRProvider = {
+      name: 'stub',
+      readsOriginal: true,
+      recognize: async () => {
+        throw new OCRError('Provider is down');
+      }
+    };
+
+    await expect(new OCRService(provider).processImage(await fs.readFile(FIXTURE_IMAGE))).rejects.toThrow(/Provider is down/);
+  });
+});
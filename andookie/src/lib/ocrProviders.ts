@@ -0,0 +1,266 @@
+// src/lib/ocrProviders.ts
+
+import crypto from 'crypto';
+import path from 'path';
+import type { Worker } from 'tesseract.js';
+import { BoundingBox, OCRResult } from './types';
+import { APIError, OCRError, ValidationError, retryWithBackoff } from './errors';
+import { DATA_DIR, readJsonFile } from './storage';
+
+/**
+ * Reads the text in a photo. Implementations return one result per word,
+ * in reading order, with its position in the image where they know it.
+ */
+export interface OCRProvider {
+  readonly name: string;
+  // Wants the photo exactly as uploaded rather than preprocessed
+  readonly readsOriginal?: boolean;
+  recognize(imageBuffer: Buffer): Promise<OCRResult[]>;
+}
+
+export type OCRProviderName = 'google' | 'tesseract' | 'fixture';
+
+export const OCR_PROVIDER_NAMES: OCRProviderName[] = ['google', 'tesseract', 'fixture'];
+
+// Google Vision API types
+interface GoogleVisionTextAnnotation {
+  description: string;
+  boundingPoly: {
+    vertices: Array<{ x?: number; y?: number }>;
+  };
+}
+
+interface GoogleVisionResponse {
+  textAnnotations: GoogleVisionTextAnnotation[];
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+const toBoundingBox = (xs: number[], ys: number[]): BoundingBox => {
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+export class GoogleVisionProvider implements OCRProvider {
+  readonly name = 'google';
+  private apiKey: string;
+  private apiUrl = 'https://vision.googleapis.com/v1/images:annotate';
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OCRResult[]> {
+    const requestBody = {
+      requests: [{
+        image: { content: imageBuffer.toString('base64') },
+        features: [
+          { type: 'TEXT_DETECTION', maxResults: 50 },
+          { type: 'DOCUMENT_TEXT_DETECTION', maxResults: 50 }
+        ]
+      }]
+    };
+
+    const response = await retryWithBackoff(async () => {
+      const result = await fetch(`${this.apiUrl}?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody)
+      });
+
+      if (!result.ok) {
+        throw new APIError(`Google Vision API error: ${result.status} ${result.statusText}`);
+      }
+
+      return result.json();
+    });
+
+    const visionResponse = response.responses[0] as GoogleVisionResponse;
+
+    if (visionResponse.error) {
+      throw new OCRError(`Google Vision API error: ${visionResponse.error.message}`);
+    }
+
+    if (!visionResponse.textAnnotations || visionResponse.textAnnotations.length === 0) {
+      return [];
+    }
+
+    // The first annotation is the whole text block; the rest are single words
+    return visionResponse.textAnnotations.slice(1).map(annotation => ({
+      text: annotation.description,
+      confidence: 0.9, // Google Vision doesn't provide confidence scores for text detection
+      boundingBox: this.convertBoundingBox(annotation.boundingPoly)
+    }));
+  }
+
+  private convertBoundingBox(boundingPoly: GoogleVisionTextAnnotation['boundingPoly']): BoundingBox {
+    const vertices = boundingPoly.vertices;
+    if (!vertices || vertices.length < 4) {
+      return { x: 0, y: 0, width: 0, height: 0 };
+    }
+    return toBoundingBox(vertices.map(v => v.x || 0), vertices.map(v => v.y || 0));
+  }
+}
+
+export interface TesseractOptions {
+  // Where eng.traineddata(.gz) is read from: a directory or URL. Point it at
+  // a local directory to run without network access.
+  langPath?: string;
+  language?: string;
+}
+
+/**
+ * Tesseract compiled to WebAssembly, running in a worker thread inside the
+ * server. Needs no API key, and no network once the language data is on disk.
+ * The worker is started on first use and kept for later photos.
+ */
+export class TesseractProvider implements OCRProvider {
+  readonly name = 'tesseract';
+  private options: TesseractOptions;
+  private worker: Promise<Worker> | null = null;
+
+  constructor(options: TesseractOptions = {}) {
+    this.options = options;
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OCRResult[]> {
+    const worker = await this.getWorker();
+
+    let page;
+    try {
+      ({ data: page } = await worker.recognize(imageBuffer, {}, { blocks: true }));
+    } catch (error) {
+      throw new OCRError(`Tesseract failed to read the image: ${(error as Error).message}`);
+    }
+
+    const words = (page.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words);
+
+    return words
+      .filter(word => word.text.trim())
+      .map(word => ({
+        text: word.text,
+        confidence: word.confidence / 100, // Tesseract reports 0-100
+        boundingBox: toBoundingBox([word.bbox.x0, word.bbox.x1], [word.bbox.y0, word.bbox.y1])
+      }));
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await (await worker).terminate();
+    }
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = this.startWorker().catch(error => {
+        this.worker = null;
+        throw new OCRError(`Couldn't start Tesseract: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+    return this.worker;
+  }
+
+  private async startWorker(): Promise<Worker> {
+    const { langPath, language = 'eng' } = this.options;
+    const { createWorker, OEM } = await import('tesseract.js');
+
+    // Start without a language and load it separately: a failed language
+    // load inside createWorker() never settles, and leaves a thread behind
+    const worker = await createWorker([], OEM.LSTM_ONLY, {
+      ...(langPath && { langPath, cachePath: langPath }),
+      // Failures already reject the call that caused them; without a
+      // handler tesseract.js also rethrows them and takes the server down
+      errorHandler: () => {}
+    });
+
+    try {
+      await worker.reinitialize(language, OEM.LSTM_ONLY);
+    } catch (error) {
+      await worker.terminate();
+      throw error;
+    }
+    return worker;
+  }
+}
+
+// Shape of a fixture file: what the OCR read from each known photo
+interface OCRFixture {
+  images: Record<string, {
+    description?: string;
+    results: OCRResult[];
+  }>;
+}
+
+export const DEFAULT_OCR_FIXTURES_PATH = path.join(DATA_DIR, 'fixtures', 'ocr', 'results.json');
+
+export const hashImage = (imageBuffer: Buffer): string => {
+  return crypto.createHash('sha256').update(imageBuffer).digest('hex');
+};
+
+/**
+ * Serves recorded OCR results for known photos, keyed by the SHA-256 of the
+ * image bytes, so tests get the same words for the same photo every time.
+ * Recordings are of the photo as uploaded, so it skips preprocessing. A
+ * photo with no recording is an error rather than made-up text.
+ */
+export class FixtureOCRProvider implements OCRProvider {
+  readonly name: string;
+  readonly readsOriginal = true;
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.name = `fixture:${path.basename(filePath)}`;
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OCRResult[]> {
+    const fixture = await readJsonFile<OCRFixture | null>(this.filePath, null);
+    if (!fixture) {
+      throw new ValidationError(`OCR fixture ${this.filePath} doesn't exist`);
+    }
+
+    const hash = hashImage(imageBuffer);
+    const recorded = fixture.images[hash];
+    if (!recorded) {
+      throw new OCRError(`No OCR fixture for image ${hash}`);
+    }
+
+    return recorded.results;
+  }
+}
+
+/**
+ * The configured provider. OCR_PROVIDER picks one explicitly; otherwise
+ * Google Vision is used when GOOGLE_VISION_API_KEY is set and Tesseract
+ * when it isn't.
+ */
+export const createOCRProvider = (): OCRProvider => {
+  const apiKey = process.env.GOOGLE_VISION_API_KEY || '';
+  const configured = process.env.OCR_PROVIDER || (apiKey ? 'google' : 'tesseract');
+
+  switch (configured) {
+    case 'google':
+      if (!apiKey) {
+        throw new ValidationError('OCR_PROVIDER is "google" but GOOGLE_VISION_API_KEY is not set');
+      }
+      return new GoogleVisionProvider(apiKey);
+    case 'tesseract':
+      return new TesseractProvider({ langPath: process.env.TESSERACT_LANG_PATH });
+    case 'fixture':
+      return new FixtureOCRProvider(process.env.OCR_FIXTURES_PATH || DEFAULT_OCR_FIXTURES_PATH);
+    default:
+      throw new ValidationError(
+        `Invalid OCR_PROVIDER "${configured}", expected one of ${OCR_PROVIDER_NAMES.join(', ')}`
+      );
+  }
+};
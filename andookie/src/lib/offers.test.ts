@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { claimOffer, getOfferRepository, issueOffer, releaseOffer, repriceCards } from './offers';
+import { OfferExpiredError } from './errors';
+import { Card } from './types';
+
+const card = (overrides: Partial<Card> = {}): Card => ({
+  id: 1,
+  name: 'Charizard',
+  set: 'Base Set',
+  number: '4/102',
+  condition: 'Near Mint',
+  marketPrice: 9999,
+  ourOffer: 9999,
+  quantity: 1,
+  catalogId: 'bs-4',
+  ...overrides
+});
+
+describe('repriceCards', () => {
+  it('prices from the catalog, not the client', async () => {
+    const [priced] = await repriceCards([card({ quantity: 2 })]);
+    expect(priced).toMatchObject({ marketPrice: 450, ourOffer: 360, quantity: 2 });
+  });
+
+  it('keeps only what the seller chose, numbering the cards itself', async () => {
+    const sent = {
+      ...card({ id: 7, language: ' Japanese ', foil: true, image: 'data:image/png;base64,AAAA', imageIndex: 0 }),
+      outcome: 'returned',
+      adjustedOffer: 5000
+    };
+    const priced = await repriceCards([sent, card({ id: 7, condition: 'Lightly Played' })]);
+
+    expect(priced.map(pricedCard => pricedCard.id)).toEqual([1, 2]);
+    expect(priced[0]).toMatchObject({ catalogId: 'bs-4', language: 'Japanese', foil: true });
+    for (const field of ['image', 'imageIndex', 'outcome', 'adjustedOffer']) {
+      expect(priced[0]).not.toHaveProperty(field);
+    }
+  });
+
+  it('rejects cards it cannot price', async () => {
+    await expect(repriceCards([card({ catalogId: undefined })])).rejects.toThrow(/isn't linked to our catalog/);
+    await expect(repriceCards([card({ catalogId: 'nope-1' })])).rejects.toThrow();
+    await expect(repriceCards([card({ quantity: 0 })])).rejects.toThrow(/invalid quantity/);
+    await expect(repriceCards([card({ condition: 'Pristine' as Card['condition'] })])).rejects.toThrow(/unknown condition/);
+  });
+
+  it('rejects conditions inherited from Object.prototype', async () => {
+    for (const condition of ['constructor', 'toString', '__proto__']) {
+      await expect(repriceCards([card({ condition: condition as Card['condition'] })])).rejects.toThrow(/unknown condition/);
+    }
+  });
+});
+
+describe('claimOffer', () => {
+  it('accepts the stored total', async () => {
+    const offer = await issueOffer([card({ quantity: 2 })]);
+    expect(offer.totalOffer).toBe(720);
+    await expect(claimOffer(offer.id, 720, 'AND-1')).resolves.toMatchObject({ id: offer.id, status: 'accepted', orderId: 'AND-1' });
+  });
+
+  it('rejects a total the seller did not agree to', async () => {
+    const offer = await issueOffer([card()]);
+    await expect(claimOffer(offer.id, 999, 'AND-1')).rejects.toThrow(/does not match our records/);
+  });
+
+  it('rejects totals that are not numbers', async () => {
+    const offer = await issueOffer([card()]);
+    await expect(claimOffer(offer.id, NaN, 'AND-1')).rejects.toThrow(/does not match/);
+
+    // A stored total that isn't a number matches nothing, not everything
+    await getOfferRepository().save({ ...offer, totalOffer: NaN });
+    await expect(claimOffer(offer.id, 123456, 'AND-1')).rejects.toThrow(/does not match/);
+  });
+
+  it('lets only one of two accepts sent at once through', async () => {
+    const offer = await issueOffer([card()]);
+    const results = await Promise.allSettled([
+      claimOffer(offer.id, offer.totalOffer, 'AND-1'),
+      claimOffer(offer.id, offer.totalOffer, 'AND-2')
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toMatch(/already been accepted/);
+    expect(await getOfferRepository().findById(offer.id)).toMatchObject({ status: 'accepted', orderId: 'AND-1' });
+  });
+
+  it('can be released for another try by the order that claimed it', async () => {
+    const offer = await issueOffer([card()]);
+    await claimOffer(offer.id, offer.totalOffer, 'AND-1');
+
+    await expect(releaseOffer(offer.id, 'AND-2')).rejects.toThrow(/isn't held by order AND-2/);
+    await releaseOffer(offer.id, 'AND-1');
+    await expect(claimOffer(offer.id, offer.totalOffer, 'AND-2')).resolves.toMatchObject({ orderId: 'AND-2' });
+  });
+
+  it('rejects unknown and accepted offers', async () => {
+    await expect(claimOffer('off_missing', 1, 'AND-1')).rejects.toThrow(/does not exist/);
+
+    const offer = await issueOffer([card()]);
+    await getOfferRepository().save({ ...offer, status: 'accepted' });
+    await expect(claimOffer(offer.id, offer.totalOffer, 'AND-1')).rejects.toThrow(/already been accepted/);
+  });
+
+  it('re-quotes an expired offer, going ahead only if the total held', async () => {
+    const offer = await issueOffer([card()]);
+    await getOfferRepository().save({ ...offer, expiresAt: new Date(Date.now() - 1000) });
+
+    const requote = await claimOffer(offer.id, offer.totalOffer, 'AND-1');
+    expect(requote.id).not.toBe(offer.id);
+    expect(requote).toMatchObject({ status: 'accepted', orderId: 'AND-1' });
+    expect(await getOfferRepository().findById(offer.id)).toMatchObject({ status: 'expired', replacedBy: requote.id });
+
+    const repriced = await issueOffer([card()]);
+    await getOfferRepository().save({ ...repriced, totalOffer: 1, expiresAt: new Date(Date.now() - 1000) });
+    await expect(claimOffer(repriced.id, 1, 'AND-1')).rejects.toBeInstanceOf(OfferExpiredError);
+  });
+
+  it('leaves an expired offer open when it cannot be re-quoted', async () => {
+    const offer = await issueOffer([card()]);
+    const expired = {
+      ...offer,
+      cards: offer.cards.map(offerCard => ({ ...offerCard, catalogId: 'gone-1' })),
+      expiresAt: new Date(Date.now() - 1000)
+    };
+    await getOfferRepository().save(expired);
+
+    await expect(claimOffer(offer.id, offer.totalOffer, 'AND-1')).rejects.toThrow(/Card not found/);
+    const stored = await getOfferRepository().findById(offer.id);
+    expect(stored?.status).toBe('open');
+    expect(stored?.replacedBy).toBeUndefined();
+  });
+});
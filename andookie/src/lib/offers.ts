@@ -0,0 +1,221 @@
+// src/lib/offers.ts
+
+import path from 'path';
+import { Card, Offer } from './types';
+import { CardNotFoundError, OfferExpiredError, ProcessingError, ValidationError, isCardCondition } from './errors';
+import { getCardRepository } from './catalog';
+import { getPricingService, toCardPricing } from './pricing';
+import { getPriceHistoryRepository } from './priceHistory';
+import { DATA_DIR, JsonCollection } from './storage';
+import { getCardTotals } from './utils';
+
+const MAX_QUANTITY = 999;
+// Big enough for a full spreadsheet import
+const MAX_CARDS_PER_OFFER = 5000;
+
+const MAX_LANGUAGE_LENGTH = 40;
+
+export interface OfferRepository {
+  findById(id: string): Promise<Offer | null>;
+  save(offer: Offer): Promise<Offer>;
+  // Read, check and replace one offer with no other request in between
+  update(id: string, change: (current: Offer | null) => Offer): Promise<Offer>;
+}
+
+export const DEFAULT_OFFERS_PATH = path.join(DATA_DIR, 'offers.json');
+
+export class FileOfferRepository extends JsonCollection<Offer> implements OfferRepository {
+  constructor(filePath: string = DEFAULT_OFFERS_PATH) {
+    super(filePath, stored => ({
+      ...stored,
+      issuedAt: new Date(stored.issuedAt),
+      expiresAt: new Date(stored.expiresAt)
+    }));
+  }
+}
+
+let repository: OfferRepository | null = null;
+
+export const getOfferRepository = (): OfferRepository => {
+  if (!repository) {
+    repository = new FileOfferRepository(process.env.OFFERS_PATH || DEFAULT_OFFERS_PATH);
+  }
+  return repository;
+};
+
+const generateOfferId = (): string => {
+  const random = Array.from({ length: 3 }, () => Math.random().toString(36).slice(2, 8)).join('');
+  return `off_${Date.now().toString(36)}${random}`;
+};
+
+/**
+ * Price cards from the catalog on the server. Only what the seller chose
+ * (which card, its condition, how many) is taken from the client; ids and
+ * everything else are the server's, so intake can tell the cards apart.
+ */
+export const repriceCards = async (cards: Card[]): Promise<Card[]> => {
+  const repository = getCardRepository();
+  const histories = getPriceHistoryRepository();
+  const pricing = await getPricingService();
+
+  return Promise.all(cards.map(async (card, index) => {
+    if (!card.catalogId) {
+      throw new ValidationError(`"${card.name}" can't be priced because it isn't linked to our catalog`, 'cards');
+    }
+
+    if (!isCardCondition(card.condition)) {
+      throw new ValidationError(`"${card.name}" has an unknown condition`, 'condition');
+    }
+
+    if (!Number.isInteger(card.quantity) || card.quantity < 1 || card.quantity > MAX_QUANTITY) {
+      throw new ValidationError(`"${card.name}" has an invalid quantity`, 'quantity');
+    }
+
+    const entry = await repository.findById(card.catalogId);
+    if (!entry) {
+      throw new CardNotFoundError(card.name);
+    }
+
+    const history = await histories.findById(entry.id);
+
+    return {
+      id: index + 1,
+      name: entry.name,
+      set: entry.set,
+      number: entry.number,
+      condition: card.condition,
+      quantity: card.quantity,
+      catalogId: entry.id,
+      language: typeof card.language === 'string' ? card.language.trim().slice(0, MAX_LANGUAGE_LENGTH) || undefined : undefined,
+      foil: typeof card.foil === 'boolean' ? card.foil : undefined,
+      ...toCardPricing(pricing.quoteEntry(entry, card.condition, history?.points))
+    };
+  }));
+};
+
+/**
+ * Price the seller's cards and store the result as an open offer. The
+ * stored snapshot, not the client's copy, is what acceptance pays out.
+ */
+export const issueOffer = async (cards: Card[]): Promise<Offer> => {
+  if (!Array.isArray(cards) || cards.length === 0) {
+    throw new ValidationError('No cards to make an offer on', 'cards');
+  }
+
+  if (cards.length > MAX_CARDS_PER_OFFER) {
+    throw new ValidationError(`Too many cards in one offer (max ${MAX_CARDS_PER_OFFER})`, 'cards');
+  }
+
+  const pricedCards = await repriceCards(cards);
+  const { totalOffer, totalMarketValue } = getCardTotals(pricedCards);
+  if (!Number.isFinite(totalOffer) || !Number.isFinite(totalMarketValue)) {
+    throw new ProcessingError('Some of these cards could not be priced');
+  }
+  const { offerValidityDays } = (await getPricingService()).getRules();
+
+  // Prices are locked until expiresAt; after that acceptance re-quotes
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + offerValidityDays * 24 * 60 * 60 * 1000);
+
+  const offer: Offer = {
+    id: generateOfferId(),
+    status: 'open',
+    cards: pricedCards,
+    totalOffer,
+    totalMarketValue,
+    issuedAt,
+    expiresAt
+  };
+
+  return getOfferRepository().save(offer);
+};
+
+/**
+ * Claim the offer being accepted for a new order, making sure the seller
+ * agreed to the same total we stored. The offer is checked and marked
+ * accepted in one step, so of two accepts sent at once only one gets it.
+ * An expired offer is re-quoted, and the re-quote claimed instead.
+ */
+export const claimOffer = async (offerId: string, totalOffer: number, orderId: string): Promise<Offer> => {
+  if (!offerId || typeof offerId !== 'string') {
+    throw new ValidationError('An offer id is required', 'offerId');
+  }
+
+  const claimed = await getOfferRepository().update(offerId, offer => {
+    if (!offer) {
+      throw new ValidationError('This offer does not exist', 'offerId');
+    }
+
+    if (offer.status === 'accepted') {
+      throw new ValidationError('This offer has already been accepted', 'offerId');
+    }
+
+    if (offer.status === 'expired') {
+      throw new ValidationError('This offer has expired and was replaced by a new one', 'offerId');
+    }
+
+    // NaN on either side would slip through the comparison, so it's refused outright
+    if (
+      typeof totalOffer !== 'number' ||
+      !Number.isFinite(totalOffer) ||
+      !Number.isFinite(offer.totalOffer) ||
+      Math.abs(totalOffer - offer.totalOffer) >= 0.01
+    ) {
+      throw new ValidationError('The offer total does not match our records. Please refresh your offer.', 'totalOffer');
+    }
+
+    // Left open until a re-quote has replaced it
+    if (offer.expiresAt.getTime() <= Date.now()) {
+      return offer;
+    }
+
+    return { ...offer, status: 'accepted', orderId };
+  });
+
+  if (claimed.status !== 'accepted') {
+    const requote = await requoteExpiredOffer(claimed);
+    return claimOffer(requote.id, requote.totalOffer, orderId);
+  }
+
+  return claimed;
+};
+
+/**
+ * Hand a claimed offer back when its order couldn't be created, so the
+ * seller can try again
+ */
+export const releaseOffer = async (offerId: string, orderId: string): Promise<void> => {
+  await getOfferRepository().update(offerId, offer => {
+    if (!offer || offer.status !== 'accepted' || offer.orderId !== orderId) {
+      throw new ValidationError(`Offer ${offerId} isn't held by order ${orderId}`, 'offerId');
+    }
+    return { ...offer, status: 'open', orderId: undefined };
+  });
+};
+
+/**
+ * Replace an expired offer with one at today's prices. If the total hasn't
+ * moved the seller can go ahead with the new offer; otherwise they have to
+ * see and agree to the new numbers first. The offer is only marked expired
+ * once the re-quote exists, so a failed re-quote leaves it as it was.
+ */
+const requoteExpiredOffer = async (offer: Offer): Promise<Offer> => {
+  const requote = await issueOffer(offer.cards);
+  await getOfferRepository().update(offer.id, current => {
+    if (current?.status === 'accepted') {
+      throw new ValidationError('This offer has already been accepted', 'offerId');
+    }
+    if (!current || current.status !== 'open') {
+      throw new ValidationError('This offer has expired and was replaced by a new one', 'offerId');
+    }
+    return { ...current, status: 'expired', replacedBy: requote.id };
+  });
+
+  console.log(`Offer ${offer.id} expired; re-quoted as ${requote.id} ($${offer.totalOffer} -> $${requote.totalOffer})`);
+
+  if (Math.abs(requote.totalOffer - offer.totalOffer) >= 0.01) {
+    throw new OfferExpiredError(requote);
+  }
+
+  return requote;
+};
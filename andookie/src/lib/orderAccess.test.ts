@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createOrderAccessToken, isValidOrderAccessToken, requireOrderAccess } from './orderAccess';
+import { withOrderAccessToken } from './utils';
+
+process.env.ORDER_LINK_SECRET = 'test-secret';
+process.env.ADMIN_CREDENTIALS = 'staff:hunter22';
+
+const labelRequest = (orderId: string, token?: string, headers: HeadersInit = {}) => {
+  const url = `http://localhost/api/orders/${orderId}/label`;
+  return new Request(token === undefined ? url : withOrderAccessToken(url, token), { headers });
+};
+
+describe('order access tokens', () => {
+  it('are tied to one order', () => {
+    const token = createOrderAccessToken('AND-1');
+    expect(isValidOrderAccessToken('AND-1', token)).toBe(true);
+    expect(isValidOrderAccessToken('AND-2', token)).toBe(false);
+    expect(isValidOrderAccessToken('AND-1', token.slice(1))).toBe(false);
+    expect(isValidOrderAccessToken('AND-1', null)).toBe(false);
+  });
+
+  it('change with the secret', () => {
+    const token = createOrderAccessToken('AND-1');
+    process.env.ORDER_LINK_SECRET = 'rotated';
+    expect(isValidOrderAccessToken('AND-1', token)).toBe(false);
+    process.env.ORDER_LINK_SECRET = 'test-secret';
+  });
+});
+
+describe('requireOrderAccess', () => {
+  it('lets in the seller with the link we gave them', () => {
+    expect(() => requireOrderAccess(labelRequest('AND-1', createOrderAccessToken('AND-1')), 'AND-1')).not.toThrow();
+  });
+
+  it('lets in signed-in staff', () => {
+    const authorization = `Basic ${btoa('staff:hunter22')}`;
+    expect(() => requireOrderAccess(labelRequest('AND-1', undefined, { authorization }), 'AND-1')).not.toThrow();
+  });
+
+  it('turns away anyone holding just the order id', () => {
+    expect(() => requireOrderAccess(labelRequest('AND-1'), 'AND-1')).toThrow(/link we sent you/);
+    expect(() => requireOrderAccess(labelRequest('AND-1', createOrderAccessToken('AND-2')), 'AND-1')).toThrow();
+  });
+});
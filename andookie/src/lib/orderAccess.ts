@@ -0,0 +1,57 @@
+// src/lib/orderAccess.ts
+
+import crypto from 'crypto';
+import { UnauthorizedError } from './errors';
+import { getAdminUser } from './auth';
+import { ORDER_TOKEN_PARAM } from './utils';
+
+let generatedSecret: string | null = null;
+
+/**
+ * Key that signs sellers' order links, from ORDER_LINK_SECRET. Without one
+ * links are signed with a key made up at startup, so they stop working
+ * whenever the server restarts.
+ */
+const getSecret = (): string => {
+  if (process.env.ORDER_LINK_SECRET) {
+    return process.env.ORDER_LINK_SECRET;
+  }
+  if (!generatedSecret) {
+    console.warn('ORDER_LINK_SECRET is not set; order links will stop working when the server restarts');
+    generatedSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+};
+
+/**
+ * The access code for one order, handed to the seller when they accept
+ * their offer. Order ids are quoted to support, so they don't prove who is
+ * asking; this code does.
+ */
+export const createOrderAccessToken = (orderId: string): string => {
+  return crypto.createHmac('sha256', getSecret()).update(orderId).digest('base64url');
+};
+
+export const isValidOrderAccessToken = (orderId: string, token: string | null | undefined): boolean => {
+  if (!token) {
+    return false;
+  }
+  const expected = Buffer.from(createOrderAccessToken(orderId));
+  const given = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * Let through the seller holding the order's access code, or staff signed
+ * in to the admin area
+ */
+export const requireOrderAccess = (request: Request, orderId: string): void => {
+  if (getAdminUser(request.headers.get('authorization'))) {
+    return;
+  }
+
+  const token = new URL(request.url).searchParams.get(ORDER_TOKEN_PARAM);
+  if (!isValidOrderAccessToken(orderId, token)) {
+    throw new UnauthorizedError('Open this page from the link we sent you when you accepted your offer');
+  }
+};
@@ -0,0 +1,61 @@
+// src/lib/orderStatus.ts
+
+import { CardOutcome, OrderStatus } from './types';
+
+// Which statuses an order may move to from each status
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  offered: ['accepted'],
+  accepted: ['label_issued'],
+  label_issued: ['in_transit', 'received'],
+  in_transit: ['received'],
+  received: ['graded'],
+  graded: ['paid', 'adjusted', 'returned'],
+  adjusted: ['paid', 'returned'],
+  paid: [],
+  returned: []
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  offered: 'Offer issued',
+  accepted: 'Offer accepted',
+  label_issued: 'Shipping label issued',
+  in_transit: 'In transit',
+  received: 'Received',
+  graded: 'Graded',
+  paid: 'Paid',
+  adjusted: 'Offer adjusted',
+  returned: 'Returned'
+};
+
+export const ORDER_STATUS_DESCRIPTIONS: Record<OrderStatus, string> = {
+  offered: 'We sent you an offer for your cards.',
+  accepted: 'You accepted our offer.',
+  label_issued: 'Your prepaid label is ready. Pack your cards and drop them off.',
+  in_transit: 'Your package is on its way to us.',
+  received: 'We have your package and will grade your cards shortly.',
+  graded: 'We have checked the condition of every card.',
+  paid: 'Payment has been sent.',
+  adjusted: 'Some cards were in a different condition than listed, so your offer changed.',
+  returned: 'Your cards are being sent back to you.'
+};
+
+export const CARD_OUTCOME_LABELS: Record<CardOutcome, string> = {
+  pending: 'Awaiting grading',
+  accepted: 'Accepted as listed',
+  adjusted: 'Condition adjusted',
+  returned: 'Returned'
+};
+
+// The usual path an order takes, for progress displays
+export const ORDER_STATUS_FLOW: OrderStatus[] = [
+  'accepted',
+  'label_issued',
+  'in_transit',
+  'received',
+  'graded',
+  'paid'
+];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_TRANSITIONS[from].includes(to);
+};
@@ -0,0 +1,98 @@
+// src/lib/orders.ts
+
+import path from 'path';
+import { Order, OrderStatus, PublicOrder } from './types';
+import { ValidationError } from './errors';
+import { canTransition, ORDER_STATUS_LABELS } from './orderStatus';
+import { DATA_DIR, JsonCollection } from './storage';
+
+export interface OrderRepository {
+  findById(id: string): Promise<Order | null>;
+  list(): Promise<Order[]>;
+  save(order: Order): Promise<Order>;
+  // Read, check and replace one order with no other request in between
+  update(id: string, change: (current: Order | null) => Order): Promise<Order>;
+}
+
+export const DEFAULT_ORDERS_PATH = path.join(DATA_DIR, 'orders.json');
+
+/**
+ * Orders persisted as a single JSON file, keyed by order id
+ */
+export class FileOrderRepository extends JsonCollection<Order> implements OrderRepository {
+  constructor(filePath: string = DEFAULT_ORDERS_PATH) {
+    super(filePath, stored => ({
+      ...stored,
+      history: (stored.history || []).map(change => ({ ...change, at: new Date(change.at) })),
+      adjustment: stored.adjustment && {
+        ...stored.adjustment,
+        gradedAt: new Date(stored.adjustment.gradedAt),
+        decidedAt: stored.adjustment.decidedAt ? new Date(stored.adjustment.decidedAt) : undefined
+      },
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt)
+    }));
+  }
+}
+
+// Short, human-friendly ids sellers can quote to support (e.g. "AND-LQ3K9F-7XQ2")
+export const generateOrderId = (): string => {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, '0');
+  return `AND-${time}-${random}`;
+};
+
+// Stand-in for a carrier label until a shipping API is wired up
+export const generateTrackingNumber = (): string => {
+  const digits = Array.from({ length: 16 }, () => Math.floor(Math.random() * 10)).join('');
+  return `1ZAND${digits}`;
+};
+
+/**
+ * Move an order to a new status, recording it in the order's history.
+ * Throws if the order's current status doesn't allow the move.
+ */
+export const transitionOrder = (order: Order, status: OrderStatus, note?: string): Order => {
+  if (!canTransition(order.status, status)) {
+    throw new ValidationError(
+      `Order ${order.id} can't go from "${ORDER_STATUS_LABELS[order.status]}" to "${ORDER_STATUS_LABELS[status]}"`,
+      'status'
+    );
+  }
+
+  const at = new Date();
+  return {
+    ...order,
+    status,
+    history: [...order.history, { status, at, note }],
+    updatedAt: at
+  };
+};
+
+/**
+ * The view of an order safe to show anyone holding its id: contact details
+ * are reduced to what the seller needs to recognise their own order
+ */
+export const toPublicOrder = (order: Order): PublicOrder => {
+  const { customerInfo, ...rest } = order;
+  const [user, domain] = customerInfo.email.split('@');
+
+  return {
+    ...rest,
+    customer: {
+      name: customerInfo.name,
+      email: `${user.slice(0, 1)}***@${domain}`,
+      city: customerInfo.address.city,
+      state: customerInfo.address.state
+    }
+  };
+};
+
+let repository: OrderRepository | null = null;
+
+export const getOrderRepository = (): OrderRepository => {
+  if (!repository) {
+    repository = new FileOrderRepository(process.env.ORDERS_PATH || DEFAULT_ORDERS_PATH);
+  }
+  return repository;
+};
@@ -0,0 +1,76 @@
+// src/lib/priceHistory.ts
+
+import path from 'path';
+import { CardDatabaseEntry, PriceHistory, PricePoint } from './types';
+import { getPriceData } from './pricing';
+import { DATA_DIR, JsonCollection } from './storage';
+
+export interface PriceHistoryRepository {
+  findById(cardId: string): Promise<PriceHistory | null>;
+  list(): Promise<PriceHistory[]>;
+  saveMany(histories: PriceHistory[]): Promise<void>;
+}
+
+export const DEFAULT_PRICE_HISTORY_PATH = path.join(DATA_DIR, 'price-history.json');
+
+/**
+ * Every market price we have seen per card, one record per catalog entry
+ */
+export class FilePriceHistoryRepository extends JsonCollection<PriceHistory> implements PriceHistoryRepository {
+  constructor(filePath: string = DEFAULT_PRICE_HISTORY_PATH) {
+    super(filePath, stored => ({
+      ...stored,
+      points: stored.points.map(point => ({ ...point, at: new Date(point.at) }))
+    }));
+  }
+}
+
+let repository: PriceHistoryRepository | null = null;
+
+export const getPriceHistoryRepository = (): PriceHistoryRepository => {
+  if (!repository) {
+    repository = new FilePriceHistoryRepository(process.env.PRICE_HISTORY_PATH || DEFAULT_PRICE_HISTORY_PATH);
+  }
+  return repository;
+};
+
+// Swap the repository implementation (e.g. for scripts pointing at another file)
+export const setPriceHistoryRepository = (newRepository: PriceHistoryRepository): void => {
+  repository = newRepository;
+};
+
+/**
+ * Append each entry's current price to its history. Prices that haven't
+ * moved since the last point aren't recorded again.
+ */
+export const recordPrices = async (entries: CardDatabaseEntry[]): Promise<number> => {
+  const histories = getPriceHistoryRepository();
+  const changed: PriceHistory[] = [];
+
+  for (const entry of entries) {
+    const priceData = getPriceData(entry);
+    const history = await histories.findById(entry.id) || { id: entry.id, points: [] };
+    const last = history.points[history.points.length - 1];
+
+    if (last && last.marketPrice === priceData.marketPrice && last.source === priceData.source) {
+      continue;
+    }
+
+    const point: PricePoint = { at: priceData.lastUpdated, marketPrice: priceData.marketPrice, source: priceData.source };
+    changed.push({
+      ...history,
+      points: [...history.points, point].sort((a, b) => a.at.getTime() - b.at.getTime())
+    });
+  }
+
+  if (changed.length > 0) {
+    await histories.saveMany(changed);
+  }
+  return changed.length;
+};
+
+// All histories keyed by card, for routes that price many cards at once
+export const loadPriceHistories = async (): Promise<Map<string, PricePoint[]>> => {
+  const histories = await getPriceHistoryRepository().list();
+  return new Map(histories.map(history => [history.id, history.points]));
+};
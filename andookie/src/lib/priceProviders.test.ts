@@ -0,0 +1,78 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FixturePriceProvider, reconcilePrices } from './priceProviders';
+import { toCatalogEntry } from './catalog';
+import { DEFAULT_PRICING_RULES } from './pricing';
+import { PriceData } from './types';
+
+const now = new Date('2024-06-10T00:00:00Z');
+const daysAgo = (days: number): Date => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const quote = (source: PriceData['source'], marketPrice: number, lastUpdated: Date = now): PriceData => ({
+  marketPrice,
+  lowPrice: marketPrice - 10,
+  midPrice: marketPrice,
+  highPrice: marketPrice + 10,
+  lastUpdated,
+  source
+});
+
+describe('reconcilePrices', () => {
+  const rules = DEFAULT_PRICING_RULES.reconciliation;
+
+  it('takes the median of fresh quotes, credited to the most trusted source', () => {
+    const price = reconcilePrices([quote('ebay', 110), quote('tcgplayer', 100, daysAgo(1)), quote('manual', 130)], rules, now);
+    expect(price).toMatchObject({ marketPrice: 110, lowPrice: 100, highPrice: 120, source: 'tcgplayer', lastUpdated: now });
+
+    expect(reconcilePrices([quote('ebay', 110), quote('tcgplayer', 100)], rules, now)?.marketPrice).toBe(105);
+  });
+
+  it('ignores quotes past the cutoff and gives up when none are left', () => {
+    expect(reconcilePrices([quote('tcgplayer', 100, daysAgo(30)), quote('ebay', 120)], rules, now)).toMatchObject({ marketPrice: 120, source: 'ebay' });
+    expect(reconcilePrices([quote('tcgplayer', 100, daysAgo(30))], rules, now)).toBeNull();
+    expect(reconcilePrices([], rules, now)).toBeNull();
+  });
+
+  it('uses only the most trusted source under the preferred strategy', () => {
+    const preferred = { ...rules, strategy: 'preferred' as const };
+    expect(reconcilePrices([quote('ebay', 110), quote('tcgplayer', 100)], preferred, now)?.source).toBe('tcgplayer');
+  });
+});
+
+describe('FixturePriceProvider', () => {
+  const entries = ['4/102', '2/102', '10/102'].map(number =>
+    toCatalogEntry({ name: 'Card', set: 'Base Set', setCode: 'BS', number, marketPrice: 1 })
+  );
+
+  const writeFixture = (fixture: unknown): string => {
+    const filePath = path.join(mkdtempSync(path.join(os.tmpdir(), 'andookie-prices-')), 'tcgplayer.json');
+    writeFileSync(filePath, JSON.stringify(fixture));
+    return filePath;
+  };
+
+  it('prices the entries the fixture knows, as fetched now unless it says otherwise', async () => {
+    const filePath = writeFixture({
+      source: 'tcgplayer',
+      prices: {
+        'bs-4': { marketPrice: 465, lowPrice: 400, midPrice: 455, highPrice: 560 },
+        'bs-2': { marketPrice: 175, lowPrice: 150, midPrice: 170, highPrice: 210, lastUpdated: '2024-06-01T00:00:00Z' },
+        'bs-99': { marketPrice: 1, lowPrice: 1, midPrice: 1, highPrice: 1 }
+      }
+    });
+    const before = Date.now();
+    const prices = await new FixturePriceProvider(filePath, 'tcgplayer').fetchPrices(entries);
+
+    expect(Array.from(prices.keys())).toEqual(['bs-4', 'bs-2']);
+    expect(prices.get('bs-4')).toMatchObject({ marketPrice: 465, source: 'tcgplayer' });
+    expect(prices.get('bs-4')!.lastUpdated.getTime()).toBeGreaterThanOrEqual(before);
+    expect(prices.get('bs-2')!.lastUpdated.toISOString()).toBe('2024-06-01T00:00:00.000Z');
+  });
+
+  it('fails when the fixture is missing', async () => {
+    const provider = new FixturePriceProvider(path.join(os.tmpdir(), 'andookie-no-such-fixture.json'), 'ebay');
+    expect(provider.name).toBe('fixture:andookie-no-such-fixture.json');
+    await expect(provider.fetchPrices(entries)).rejects.toThrow(/doesn't exist/);
+  });
+});
@@ -0,0 +1,134 @@
+// src/lib/priceProviders.ts
+
+import path from 'path';
+import { CardDatabaseEntry, PriceData, PricingRules } from './types';
+import { ValidationError } from './errors';
+import { DATA_DIR, readJsonFile } from './storage';
+
+/**
+ * A source of card prices. Implementations return prices for whichever of
+ * the given entries they know about, keyed by catalog id.
+ */
+export interface PriceProvider {
+  readonly name: string;
+  readonly source: PriceData['source'];
+  fetchPrices(entries: CardDatabaseEntry[]): Promise<Map<string, PriceData>>;
+}
+
+// Shape of a fixture file: prices as a feed would report them
+interface PriceFixture {
+  source: PriceData['source'];
+  prices: Record<string, Omit<PriceData, 'source' | 'lastUpdated'> & { lastUpdated?: string }>;
+}
+
+export const DEFAULT_PRICE_FIXTURES_DIR = path.join(DATA_DIR, 'fixtures', 'prices');
+
+/**
+ * Serves prices from a JSON file on disk, so refreshes work offline in
+ * development and give the same answer every time. Prices without a
+ * lastUpdated count as fetched just now.
+ */
+export class FixturePriceProvider implements PriceProvider {
+  readonly name: string;
+  readonly source: PriceData['source'];
+  private filePath: string;
+
+  constructor(filePath: string, source: PriceData['source']) {
+    this.filePath = filePath;
+    this.source = source;
+    this.name = `fixture:${path.basename(filePath)}`;
+  }
+
+  async fetchPrices(entries: CardDatabaseEntry[]): Promise<Map<string, PriceData>> {
+    const fixture = await readJsonFile<PriceFixture | null>(this.filePath, null);
+    if (!fixture) {
+      throw new ValidationError(`Price fixture ${this.filePath} doesn't exist`);
+    }
+
+    const fetchedAt = new Date();
+    const prices = new Map<string, PriceData>();
+
+    for (const entry of entries) {
+      const price = fixture.prices[entry.id];
+      if (!price) continue;
+
+      prices.set(entry.id, {
+        marketPrice: price.marketPrice,
+        lowPrice: price.lowPrice,
+        midPrice: price.midPrice,
+        highPrice: price.highPrice,
+        lastUpdated: price.lastUpdated ? new Date(price.lastUpdated) : fetchedAt,
+        source: this.source
+      });
+    }
+
+    return prices;
+  }
+}
+
+/**
+ * The configured providers. PRICE_FIXTURES lists fixture files as
+ * "source:path" pairs; without it the bundled fixtures are used.
+ */
+export const getPriceProviders = (): PriceProvider[] => {
+  const configured = process.env.PRICE_FIXTURES;
+  if (!configured) {
+    return [
+      new FixturePriceProvider(path.join(DEFAULT_PRICE_FIXTURES_DIR, 'tcgplayer.json'), 'tcgplayer'),
+      new FixturePriceProvider(path.join(DEFAULT_PRICE_FIXTURES_DIR, 'ebay.json'), 'ebay')
+    ];
+  }
+
+  return configured.split(',').map(pair => {
+    const separator = pair.indexOf(':');
+    const source = pair.slice(0, separator).trim() as PriceData['source'];
+    if (separator <= 0 || !['tcgplayer', 'ebay', 'manual'].includes(source)) {
+      throw new ValidationError(`Invalid PRICE_FIXTURES entry "${pair}", expected "source:path"`);
+    }
+    return new FixturePriceProvider(pair.slice(separator + 1).trim(), source);
+  });
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  return Math.round(value * 100) / 100;
+};
+
+/**
+ * Combine what the providers reported for one card into a single price.
+ * Quotes older than the cutoff are ignored; with nothing fresh left the
+ * result is null and the card keeps the price it has.
+ */
+export const reconcilePrices = (
+  quotes: PriceData[],
+  rules: PricingRules['reconciliation'],
+  now: Date = new Date()
+): PriceData | null => {
+  const cutoff = now.getTime() - rules.maxAgeDays * 24 * 60 * 60 * 1000;
+  const fresh = quotes.filter(quote => quote.lastUpdated.getTime() >= cutoff);
+  if (fresh.length === 0) {
+    return null;
+  }
+
+  // Sources we trust most come first; anything unlisted goes last
+  const rank = (source: PriceData['source']): number => {
+    const index = rules.preferredSources.indexOf(source);
+    return index === -1 ? rules.preferredSources.length : index;
+  };
+  const ranked = [...fresh].sort((a, b) => rank(a.source) - rank(b.source));
+
+  if (rules.strategy === 'preferred' || ranked.length === 1) {
+    return ranked[0];
+  }
+
+  return {
+    marketPrice: median(ranked.map(quote => quote.marketPrice)),
+    lowPrice: median(ranked.map(quote => quote.lowPrice)),
+    midPrice: median(ranked.map(quote => quote.midPrice)),
+    highPrice: median(ranked.map(quote => quote.highPrice)),
+    lastUpdated: new Date(Math.max(...ranked.map(quote => quote.lastUpdated.getTime()))),
+    source: ranked[0].source
+  };
+};
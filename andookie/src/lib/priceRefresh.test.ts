@@ -0,0 +1,75 @@
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyCatalogUpdate, FileCardRepository, setCardRepository, toCatalogEntry } from './catalog';
+import { getPriceHistoryRepository } from './priceHistory';
+import { PriceProvider } from './priceProviders';
+import { refreshPrices } from './priceRefresh';
+import { CardDatabaseEntry, PriceData } from './types';
+
+const entry = (number: string, marketPrice: number): CardDatabaseEntry =>
+  toCatalogEntry({ name: `Card ${number}`, set: 'Base Set', setCode: 'BS', number, marketPrice, lastUpdated: '2024-01-01' });
+
+const price = (marketPrice: number, source: PriceData['source'] = 'tcgplayer'): PriceData => ({
+  marketPrice,
+  lowPrice: marketPrice,
+  midPrice: marketPrice,
+  highPrice: marketPrice,
+  lastUpdated: new Date(),
+  source
+});
+
+// A provider serving fixed prices, optionally running something mid-fetch
+const provider = (prices: Record<string, PriceData>, duringFetch?: () => Promise<void>): PriceProvider => ({
+  name: 'stub',
+  source: 'tcgplayer',
+  fetchPrices: async () => {
+    await duringFetch?.();
+    return new Map(Object.entries(prices));
+  }
+});
+
+const failing: PriceProvider = {
+  name: 'broken',
+  source: 'ebay',
+  fetchPrices: async () => {
+    throw new Error('Feed is down');
+  }
+};
+
+describe('refreshPrices', () => {
+  let repository: FileCardRepository;
+
+  beforeEach(async () => {
+    repository = new FileCardRepository(path.join(mkdtempSync(path.join(os.tmpdir(), 'andookie-refresh-')), 'catalog.json'));
+    setCardRepository(repository);
+    const manual = applyCatalogUpdate(entry('10/102', 80), { marketPrice: 90 }).entry;
+    await repository.upsertMany([entry('4/102', 450), entry('2/102', 170), manual, entry('15/102', 110)]);
+  });
+
+  it('stores fresh prices, leaving manual, unchanged and unpriced cards alone', async () => {
+    await refreshPrices([provider({ 'bs-2': price(175), 'bs-10': price(85), 'bs-15': price(118) })]);
+
+    const result = await refreshPrices([provider({ 'bs-2': price(175), 'bs-10': price(85), 'bs-15': price(120) }), failing]);
+    expect(result).toEqual({ updated: 1, unchanged: 1, manual: 1, missing: 1, failedProviders: ['broken'] });
+
+    expect((await repository.findById('bs-15'))?.marketPrice).toBe(120);
+    expect((await repository.findById('bs-10'))?.priceData).toMatchObject({ marketPrice: 90, source: 'manual' });
+    expect((await repository.findById('bs-4'))?.marketPrice).toBe(450);
+    expect((await getPriceHistoryRepository().findById('bs-15'))?.points.map(point => point.marketPrice)).toEqual([118, 120]);
+  });
+
+  it('keeps a manual price saved while the providers were being fetched', async () => {
+    const overrideMidFetch = async () => {
+      const current = (await repository.findById('bs-4'))!;
+      await repository.upsert(applyCatalogUpdate(current, { marketPrice: 500 }).entry);
+    };
+
+    const result = await refreshPrices([provider({ 'bs-4': price(465), 'bs-2': price(180) }, overrideMidFetch)]);
+
+    expect(result).toMatchObject({ updated: 1, manual: 2 });
+    expect((await repository.findById('bs-4'))?.priceData).toMatchObject({ marketPrice: 500, source: 'manual' });
+    expect((await repository.findById('bs-2'))?.marketPrice).toBe(180);
+  });
+});
@@ -0,0 +1,110 @@
+// src/lib/priceRefresh.ts
+
+import { CardDatabaseEntry, PriceData } from './types';
+import { getCardRepository } from './catalog';
+import { logError } from './errors';
+import { getPricingService } from './pricing';
+import { getPriceProviders, PriceProvider, reconcilePrices } from './priceProviders';
+import { recordPrices } from './priceHistory';
+
+export interface PriceRefreshResult {
+  updated: number;
+  unchanged: number;
+  // Cards with a manual price from staff, which a refresh never overwrites
+  manual: number;
+  // Cards no provider had a fresh price for
+  missing: number;
+  failedProviders: string[];
+}
+
+const samePrices = (a: PriceData, b: PriceData): boolean => {
+  return a.marketPrice === b.marketPrice &&
+    a.lowPrice === b.lowPrice &&
+    a.midPrice === b.midPrice &&
+    a.highPrice === b.highPrice &&
+    a.source === b.source;
+};
+
+/**
+ * Pull prices from every provider, reconcile them per card and store the
+ * result on the catalog. One provider failing doesn't stop the others.
+ */
+export const refreshPrices = async (providers: PriceProvider[] = getPriceProviders()): Promise<PriceRefreshResult> => {
+  const repository = getCardRepository();
+  const { reconciliation } = (await getPricingService()).getRules();
+  const entries = await repository.list();
+
+  const result: PriceRefreshResult = { updated: 0, unchanged: 0, manual: 0, missing: 0, failedProviders: [] };
+  const feeds: Map<string, PriceData>[] = [];
+
+  for (const provider of providers) {
+    try {
+      feeds.push(await provider.fetchPrices(entries));
+    } catch (error) {
+      logError(error as Error, { job: 'price-refresh', provider: provider.name });
+      result.failedProviders.push(provider.name);
+    }
+  }
+
+  const now = new Date();
+
+  // The fetch can take a while, so each entry is checked again as it is
+  // written; a manual price staff saved in the meantime is kept
+  const updated = await repository.updateMany(entries.map(entry => entry.id), (entry): CardDatabaseEntry => {
+    if (entry.priceData?.source === 'manual') {
+      result.manual++;
+      return entry;
+    }
+
+    const quotes = feeds
+      .map(feed => feed.get(entry.id))
+      .filter((quote): quote is PriceData => quote !== undefined);
+    const priceData = reconcilePrices(quotes, reconciliation, now);
+
+    if (!priceData) {
+      result.missing++;
+      return entry;
+    }
+    if (entry.priceData && samePrices(entry.priceData, priceData)) {
+      result.unchanged++;
+      return entry;
+    }
+    return { ...entry, marketPrice: priceData.marketPrice, priceData, lastUpdated: now };
+  });
+
+  if (updated.length > 0) {
+    await recordPrices(updated);
+  }
+  result.updated = updated.length;
+
+  return result;
+};
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Refresh prices every `intervalMinutes` for as long as the server runs.
+ * A refresh that is still going when the next one is due is not doubled up.
+ */
+export const startPriceRefreshSchedule = (intervalMinutes: number): void => {
+  if (refreshTimer || !(intervalMinutes > 0)) {
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await refreshPrices();
+      console.log(`Price refresh: ${result.updated} updated, ${result.unchanged} unchanged, ${result.manual} manual, ${result.missing} without a fresh price`);
+    } catch (error) {
+      logError(error as Error, { job: 'price-refresh' });
+    } finally {
+      running = false;
+    }
+  };
+
+  refreshTimer = setInterval(run, intervalMinutes * 60 * 1000);
+  run();
+};
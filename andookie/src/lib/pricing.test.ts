@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRICING_RULES, PricingService, toCardPricing, validatePricingRules } from './pricing';
+import { Card, CardCondition, PriceData, PricePoint, PricingRules } from './types';
+
+const priceData = (marketPrice: number, overrides: Partial<PriceData> = {}): PriceData => ({
+  marketPrice,
+  lowPrice: marketPrice * 0.8,
+  midPrice: marketPrice,
+  highPrice: marketPrice * 1.5,
+  lastUpdated: new Date(),
+  source: 'tcgplayer',
+  ...overrides
+});
+
+const pointDaysAgo = (days: number, marketPrice: number): PricePoint => ({
+  at: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+  marketPrice,
+  source: 'tcgplayer'
+});
+
+describe('PricingService.quote', () => {
+  const pricing = new PricingService();
+
+  it('pays each bracket its own percentage', () => {
+    expect(pricing.quote(priceData(1), 'Near Mint')).toMatchObject({ ourOffer: 0.3, bracket: 'Bulk (under $2)' });
+    expect(pricing.quote(priceData(10), 'Near Mint')).toMatchObject({ ourOffer: 6, offerPercentage: 0.6 });
+    expect(pricing.quote(priceData(100), 'Near Mint')).toMatchObject({ ourOffer: 70, offerPercentage: 0.7 });
+    expect(pricing.quote(priceData(450), 'Near Mint')).toMatchObject({ ourOffer: 360, bracket: 'Chase ($200+)' });
+  });
+
+  it('applies the condition before picking the bracket', () => {
+    // $25 at Heavily Played is a $10 card
+    const quote = pricing.quote(priceData(25), 'Heavily Played');
+    expect(quote.marketPrice).toBe(10);
+    expect(quote.ourOffer).toBe(6);
+  });
+
+  it('never offers less than the minimum on a priced card', () => {
+    expect(pricing.quote(priceData(0.02), 'Heavily Played').ourOffer).toBe(0.01);
+    expect(pricing.quote(priceData(0), 'Near Mint').ourOffer).toBe(0);
+  });
+
+  it('prices from the configured basis', () => {
+    const lowBasis = new PricingService({ ...DEFAULT_PRICING_RULES, priceBasis: 'low' });
+    expect(lowBasis.quote(priceData(100), 'Near Mint').marketPrice).toBe(80);
+  });
+
+  it('rounds to the configured increment', () => {
+    const rules: PricingRules = { ...DEFAULT_PRICING_RULES, rounding: { increment: 0.25, mode: 'down' } };
+    expect(new PricingService(rules).quote(priceData(10.9), 'Near Mint').ourOffer).toBe(6.5);
+  });
+
+  it('offers on the pre-spike price after a recent jump', () => {
+    const rules: PricingRules = { ...DEFAULT_PRICING_RULES, priceSpike: { windowDays: 14, threshold: 0.5 } };
+    const history = [pointDaysAgo(10, 100), pointDaysAgo(1, 300)];
+    const quote = new PricingService(rules).quote(priceData(300), 'Near Mint', undefined, history);
+
+    expect(quote.marketPrice).toBe(300);
+    expect(quote.spikeBaseline).toBe(100);
+    expect(quote.ourOffer).toBe(105); // 70% of $150
+  });
+
+  it('ignores price moves older than the spike window', () => {
+    const rules: PricingRules = { ...DEFAULT_PRICING_RULES, priceSpike: { windowDays: 14, threshold: 0.5 } };
+    const history = [pointDaysAgo(30, 100)];
+    expect(new PricingService(rules).quote(priceData(300), 'Near Mint', undefined, history).spikeBaseline).toBeUndefined();
+  });
+});
+
+describe('PricingService.regrade', () => {
+  it('keeps the locked market price and changes only the condition', () => {
+    const card = { marketPrice: 80, condition: 'Lightly Played' } as Card;
+    const quote = new PricingService().regrade(card, 'Heavily Played');
+    expect(quote.marketPrice).toBe(40);
+    expect(quote.ourOffer).toBe(28);
+  });
+
+  it('never goes up after a spike cap', () => {
+    const rules: PricingRules = { ...DEFAULT_PRICING_RULES, priceSpike: { windowDays: 14, threshold: 0.25 } };
+    const pricing = new PricingService(rules);
+    const quote = pricing.quote(priceData(100), 'Near Mint', undefined, [pointDaysAgo(5, 40)]);
+    const card = { condition: 'Near Mint', ...toCardPricing(quote) } as Card;
+    expect(card.ourOffer).toBe(35); // 70% of the $50 cap
+
+    const conditions: CardCondition[] = ['Near Mint', 'Lightly Played', 'Moderately Played', 'Heavily Played'];
+    const offers = conditions.map(condition => pricing.regrade(card, condition).ourOffer);
+    expect(offers).toEqual([35, 28, 21, 14]);
+    expect(pricing.regrade(card, 'Moderately Played').marketPrice).toBe(60);
+  });
+});
+
+describe('validatePricingRules', () => {
+  it('rejects impossible percentages and brackets', () => {
+    expect(() => validatePricingRules({ ...DEFAULT_PRICING_RULES, offerPercentage: 1.5 })).toThrow(/between 0 and 1/);
+    expect(() => validatePricingRules({
+      ...DEFAULT_PRICING_RULES,
+      offerBrackets: [{ label: 'Backwards', minPrice: 10, maxPrice: 5, percentage: 0.5 }]
+    })).toThrow(/ends before it starts/);
+  });
+
+  it('sorts brackets and lowercases rarity keys', () => {
+    const rules = validatePricingRules({
+      ...DEFAULT_PRICING_RULES,
+      offerBrackets: [...DEFAULT_PRICING_RULES.offerBrackets].reverse(),
+      rarityAdjustments: { 'Secret Rare': 1.1 }
+    });
+    expect(rules.offerBrackets.map(bracket => bracket.minPrice)).toEqual([0, 2, 20, 200]);
+    expect(rules.rarityAdjustments).toEqual({ 'secret rare': 1.1 });
+  });
+});
@@ -0,0 +1,300 @@
+// src/lib/pricing.ts
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Card,
+  CardCondition,
+  CardDatabaseEntry,
+  OfferBracket,
+  OfferQuote,
+  PriceData,
+  PricePoint,
+  PricingRules,
+  CONDITION_MULTIPLIERS,
+  OFFER_PERCENTAGE
+} from './types';
+import { ValidationError } from './errors';
+import { DATA_DIR } from './storage';
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  priceBasis: 'market',
+  conditionMultipliers: CONDITION_MULTIPLIERS,
+  offerPercentage: OFFER_PERCENTAGE,
+  offerBrackets: [
+    { label: 'Bulk (under $2)', minPrice: 0, maxPrice: 2, percentage: 0.3 },
+    { label: '$2 – $20', minPrice: 2, maxPrice: 20, percentage: 0.6 },
+    { label: '$20 – $200', minPrice: 20, maxPrice: 200, percentage: 0.7 },
+    { label: 'Chase ($200+)', minPrice: 200, percentage: 0.8 }
+  ],
+  rarityAdjustments: {},
+  sourceAdjustments: {},
+  minimumOffer: 0.01,
+  offerValidityDays: 7,
+  rounding: { increment: 0.01, mode: 'nearest' },
+  reconciliation: {
+    strategy: 'median',
+    preferredSources: ['tcgplayer', 'ebay'],
+    maxAgeDays: 7
+  }
+};
+
+export const DEFAULT_PRICING_RULES_PATH = path.join(DATA_DIR, 'pricing-rules.json');
+
+const roundTo = (value: number, increment: number, mode: PricingRules['rounding']['mode']): number => {
+  // Work in whole increments to dodge floating point drift (0.1 + 0.2 and friends)
+  const steps = value / increment;
+  const rounded = mode === 'down'
+    ? Math.floor(steps + 1e-9)
+    : mode === 'up'
+      ? Math.ceil(steps - 1e-9)
+      : Math.round(steps);
+  return Math.round(rounded * increment * 100) / 100;
+};
+
+/**
+ * Single source of truth for turning market prices into buy offers
+ */
+export class PricingService {
+  private rules: PricingRules;
+
+  constructor(rules: PricingRules = DEFAULT_PRICING_RULES) {
+    this.rules = rules;
+  }
+
+  getRules(): PricingRules {
+    return this.rules;
+  }
+
+  quote(priceData: PriceData, condition: CardCondition, rarity?: string, history: PricePoint[] = []): OfferQuote {
+    const basePrice = this.getBasePrice(priceData);
+    const sourceAdjustment = this.rules.sourceAdjustments[priceData.source] ?? 1;
+    const conditionMultiplier = this.rules.conditionMultipliers[condition] ?? 1;
+
+    const marketPrice = Math.round(basePrice * sourceAdjustment * conditionMultiplier * 100) / 100;
+    const spikeBaseline = this.getSpikeBaseline(priceData, history);
+
+    if (spikeBaseline === undefined) {
+      return this.priceOffer(marketPrice, priceData.source, basePrice, rarity);
+    }
+
+    // Offer on the capped price, but keep showing the real market price
+    const cappedPrice = Math.round(marketPrice * spikeBaseline * (1 + this.rules.priceSpike!.threshold) / priceData.marketPrice * 100) / 100;
+    return {
+      ...this.priceOffer(cappedPrice, priceData.source, basePrice, rarity),
+      marketPrice,
+      spikeBaseline,
+      cappedPrice
+    };
+  }
+
+  quoteEntry(entry: CardDatabaseEntry, condition: CardCondition, history?: PricePoint[]): OfferQuote {
+    return this.quote(getPriceData(entry), condition, entry.rarity, history);
+  }
+
+  /**
+   * Re-price a card already on an order for the condition it actually
+   * arrived in. The market price locked in by the offer is kept; only the
+   * condition multiplier changes. A card offered on a capped spike price is
+   * re-priced from that cap, so a worse grade can't raise the offer.
+   */
+  regrade(card: Card, condition: CardCondition, rarity?: string): OfferQuote {
+    const listedMultiplier = this.rules.conditionMultipliers[card.condition] || 1;
+    const gradedMultiplier = this.rules.conditionMultipliers[condition] ?? 1;
+    const lockedPrice = card.marketPrice / listedMultiplier;
+    const marketPrice = Math.round(lockedPrice * gradedMultiplier * 100) / 100;
+
+    if (card.cappedPrice === undefined) {
+      return this.priceOffer(marketPrice, 'manual', lockedPrice, rarity);
+    }
+
+    const cappedPrice = Math.round(card.cappedPrice / listedMultiplier * gradedMultiplier * 100) / 100;
+    return {
+      ...this.priceOffer(cappedPrice, 'manual', lockedPrice, rarity),
+      marketPrice,
+      cappedPrice
+    };
+  }
+
+  private priceOffer(marketPrice: number, source: PriceData['source'], basePrice: number, rarity?: string): OfferQuote {
+    const bracket = this.getBracket(marketPrice);
+    const offerPercentage = this.getOfferPercentage(bracket, rarity);
+    const flatOffer = bracket?.flatOffer !== undefined;
+
+    let ourOffer = flatOffer ? Math.min(bracket!.flatOffer!, marketPrice) : marketPrice * offerPercentage;
+    if (marketPrice > 0) {
+      ourOffer = Math.max(ourOffer, this.rules.minimumOffer);
+    }
+    ourOffer = roundTo(ourOffer, this.rules.rounding.increment, this.rules.rounding.mode);
+
+    return {
+      basePrice,
+      marketPrice,
+      offerPercentage,
+      ourOffer,
+      source,
+      bracket: bracket?.label,
+      flatOffer
+    };
+  }
+
+  /**
+   * The lowest market price seen within the spike window, if the current
+   * price has climbed further above it than the rules allow
+   */
+  private getSpikeBaseline(priceData: PriceData, history: PricePoint[]): number | undefined {
+    const { priceSpike } = this.rules;
+    if (!priceSpike || history.length === 0 || priceData.marketPrice <= 0) {
+      return undefined;
+    }
+
+    const windowStart = Date.now() - priceSpike.windowDays * 24 * 60 * 60 * 1000;
+    const recent = history.filter(point => point.at.getTime() >= windowStart && point.marketPrice > 0);
+    if (recent.length === 0) {
+      return undefined;
+    }
+
+    const baseline = Math.min(...recent.map(point => point.marketPrice));
+    return priceData.marketPrice > baseline * (1 + priceSpike.threshold) ? baseline : undefined;
+  }
+
+  private getBasePrice(priceData: PriceData): number {
+    switch (this.rules.priceBasis) {
+      case 'low':
+        return priceData.lowPrice;
+      case 'mid':
+        return priceData.midPrice;
+      case 'high':
+        return priceData.highPrice;
+      default:
+        return priceData.marketPrice;
+    }
+  }
+
+  private getBracket(marketPrice: number): OfferBracket | undefined {
+    return this.rules.offerBrackets.find(bracket =>
+      marketPrice >= bracket.minPrice && (bracket.maxPrice === undefined || marketPrice < bracket.maxPrice)
+    );
+  }
+
+  private getOfferPercentage(bracket: OfferBracket | undefined, rarity?: string): number {
+    // Prices outside every bracket fall back to the flat offer percentage
+    const percentage = bracket ? bracket.percentage : this.rules.offerPercentage;
+    const rarityAdjustment = rarity ? this.rules.rarityAdjustments[rarity.toLowerCase()] ?? 1 : 1;
+    return Math.min(Math.round(percentage * rarityAdjustment * 10000) / 10000, 1);
+  }
+}
+
+/**
+ * Price data for a catalog entry; entries without a full price feed only
+ * carry a market price, which then stands in for low/mid/high as well
+ */
+export const getPriceData = (entry: CardDatabaseEntry): PriceData => {
+  if (entry.priceData) {
+    return entry.priceData;
+  }
+
+  return {
+    marketPrice: entry.marketPrice,
+    lowPrice: entry.marketPrice,
+    midPrice: entry.marketPrice,
+    highPrice: entry.marketPrice,
+    lastUpdated: entry.lastUpdated,
+    source: 'manual'
+  };
+};
+
+// The pricing fields a Card carries for a quote
+export const toCardPricing = (
+  quote: OfferQuote
+): Pick<Card, 'marketPrice' | 'ourOffer' | 'offerBracket' | 'offerPercentage' | 'priceSpike' | 'cappedPrice'> => {
+  return {
+    marketPrice: quote.marketPrice,
+    ourOffer: quote.ourOffer,
+    offerBracket: quote.bracket,
+    offerPercentage: quote.flatOffer ? undefined : quote.offerPercentage,
+    priceSpike: quote.spikeBaseline !== undefined ? true : undefined,
+    cappedPrice: quote.cappedPrice
+  };
+};
+
+export const validatePricingRules = (rules: PricingRules): PricingRules => {
+  if (rules.offerPercentage <= 0 || rules.offerPercentage > 1) {
+    throw new ValidationError('Offer percentage must be between 0 and 1', 'offerPercentage');
+  }
+  if (rules.minimumOffer < 0) {
+    throw new ValidationError('Minimum offer cannot be negative', 'minimumOffer');
+  }
+  if (rules.offerValidityDays <= 0) {
+    throw new ValidationError('Offers must be valid for at least part of a day', 'offerValidityDays');
+  }
+  if (rules.rounding.increment <= 0) {
+    throw new ValidationError('Rounding increment must be positive', 'rounding');
+  }
+  if (!['median', 'preferred'].includes(rules.reconciliation.strategy)) {
+    throw new ValidationError('Reconciliation strategy must be "median" or "preferred"', 'reconciliation');
+  }
+  if (rules.reconciliation.maxAgeDays <= 0) {
+    throw new ValidationError('Feed prices must be allowed to be at least part of a day old', 'reconciliation');
+  }
+  if (rules.priceSpike && (rules.priceSpike.windowDays <= 0 || rules.priceSpike.threshold < 0)) {
+    throw new ValidationError('Price spike rule needs a positive window and a threshold of zero or more', 'priceSpike');
+  }
+  for (const bracket of rules.offerBrackets) {
+    if (bracket.percentage <= 0 || bracket.percentage > 1) {
+      throw new ValidationError(`Bracket "${bracket.label}" has an invalid percentage`, 'offerBrackets');
+    }
+    if (bracket.maxPrice !== undefined && bracket.maxPrice <= bracket.minPrice) {
+      throw new ValidationError(`Bracket "${bracket.label}" ends before it starts`, 'offerBrackets');
+    }
+    if (bracket.flatOffer !== undefined && bracket.flatOffer < 0) {
+      throw new ValidationError(`Bracket "${bracket.label}" has a negative flat offer`, 'offerBrackets');
+    }
+  }
+
+  return {
+    ...rules,
+    offerBrackets: [...rules.offerBrackets].sort((a, b) => a.minPrice - b.minPrice),
+    // Rarity lookups are case-insensitive
+    rarityAdjustments: Object.fromEntries(
+      Object.entries(rules.rarityAdjustments).map(([rarity, adjustment]) => [rarity.toLowerCase(), adjustment])
+    )
+  };
+};
+
+/**
+ * Read pricing rules from disk, falling back to the defaults for anything
+ * the file doesn't set
+ */
+export const loadPricingRules = async (filePath: string = DEFAULT_PRICING_RULES_PATH): Promise<PricingRules> => {
+  let overrides: Partial<PricingRules> = {};
+  try {
+    overrides = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new ValidationError(`Invalid pricing rules file: ${(error as Error).message}`);
+    }
+  }
+
+  return validatePricingRules({
+    ...DEFAULT_PRICING_RULES,
+    ...overrides,
+    conditionMultipliers: { ...DEFAULT_PRICING_RULES.conditionMultipliers, ...overrides.conditionMultipliers },
+    rounding: { ...DEFAULT_PRICING_RULES.rounding, ...overrides.rounding },
+    reconciliation: { ...DEFAULT_PRICING_RULES.reconciliation, ...overrides.reconciliation }
+  });
+};
+
+let pricingService: Promise<PricingService> | null = null;
+
+export const getPricingService = (): Promise<PricingService> => {
+  if (!pricingService) {
+    pricingService = loadPricingRules(process.env.PRICING_RULES_PATH || DEFAULT_PRICING_RULES_PATH)
+      .then(rules => new PricingService(rules))
+      .catch(error => {
+        pricingService = null;
+        throw error;
+      });
+  }
+  return pricingService;
+};
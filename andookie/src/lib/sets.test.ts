@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getSetRegistry, normalizeSetText, SetRegistry, validateSets } from './sets';
+import { SetInfo } from './types';
+
+const set = (name: string, code: string, aliases: string[], printedTotal: number): SetInfo => ({
+  name, code, aliases, printedTotal,
+  releaseDate: new Date('2000-01-01')
+});
+
+const registry = new SetRegistry([
+  set('Base Set', 'BS', ['base', 'base1'], 102),
+  set('Base Set 2', 'B2', ['base4', 'bs2'], 130),
+  set("Champion's Path", 'CPA', ['swsh35'], 73),
+  set('Vivid Voltage', 'VIV', ['vivid', 'swsh4'], 185),
+  set('Darkness Ablaze', 'DAA', ['swsh3'], 189)
+]);
+
+describe('normalizeSetText', () => {
+  it('keeps lowercase words only', () => {
+    expect(normalizeSetText("Champion's Path")).toBe('champions path');
+    expect(normalizeSetText('Sword & Shield')).toBe('sword shield');
+    expect(normalizeSetText('Pokémon GO')).toBe('pokemon go');
+  });
+});
+
+describe('SetRegistry', () => {
+  it('resolves a set by its name, code or any alias', () => {
+    for (const text of ['Vivid Voltage', 'VIV', 'viv', 'swsh4', 'Vivid']) {
+      expect(registry.resolve(text)?.code).toBe('VIV');
+    }
+    expect(registry.resolve('champions path')?.code).toBe('CPA');
+    expect(registry.resolve('Voltage')).toBeNull();
+  });
+
+  it('finds mentions in text in the order they appear, longest name first', () => {
+    expect(registry.findMentions('Pikachu VIV 043/185 and a Charizard from base set 2').map(found => found.code)).toEqual(['VIV', 'B2']);
+    expect(registry.findMentions('base set charizard, base set blastoise').map(found => found.code)).toEqual(['BS']);
+    expect(registry.findMentions('swsh35 Charizard V')[0]?.code).toBe('CPA');
+  });
+
+  it('only finds whole words', () => {
+    expect(registry.findMentions('Vividly drawn basement art')).toEqual([]);
+  });
+
+  it('lists the sets printed out of a total', () => {
+    expect(registry.withPrintedTotal(185).map(found => found.code)).toEqual(['VIV']);
+    expect(registry.withPrintedTotal(999)).toEqual([]);
+  });
+
+  it('refuses an alias shared by two sets', () => {
+    expect(() => new SetRegistry([set('Base Set', 'BS', ['base'], 102), set('Base Set 2', 'B2', ['base'], 130)]))
+      .toThrow(/"base" names both Base Set and Base Set 2/);
+  });
+
+  it('loads the bundled registry', async () => {
+    const bundled = await getSetRegistry();
+    expect(bundled.resolve('base1')?.name).toBe('Base Set');
+    expect(bundled.resolve('swsh4')?.name).toBe('Vivid Voltage');
+  });
+});
+
+describe('validateSets', () => {
+  const stored = { name: 'Jungle', code: 'JU', aliases: ['base2'], releaseDate: '1999-06-16', printedTotal: 64 };
+
+  it('reads release dates and defaults aliases', () => {
+    const [jungle] = validateSets([{ ...stored, aliases: undefined as unknown as string[] }]);
+    expect(jungle.releaseDate.toISOString()).toBe('1999-06-16T00:00:00.000Z');
+    expect(jungle.aliases).toEqual([]);
+  });
+
+  it('rejects duplicate codes, bad dates and bad totals', () => {
+    expect(() => validateSets([stored, { ...stored, name: 'Fossil' }])).toThrow(/used twice/);
+    expect(() => validateSets([{ ...stored, releaseDate: 'soon' }])).toThrow(/invalid release date/);
+    expect(() => validateSets([{ ...stored, printedTotal: 0 }])).toThrow(/invalid printed total/);
+  });
+});
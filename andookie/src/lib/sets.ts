@@ -0,0 +1,127 @@
+// src/lib/sets.ts
+
+import path from 'path';
+import { SetInfo } from './types';
+import { ValidationError } from './errors';
+import { DATA_DIR, readJsonFile } from './storage';
+
+export const DEFAULT_SETS_PATH = path.join(DATA_DIR, 'sets.json');
+
+type StoredSetInfo = Omit<SetInfo, 'releaseDate'> & { releaseDate: string };
+
+// Lowercase words only: "Champion's Path" -> "champions path", "Sword & Shield" -> "sword shield"
+export const normalizeSetText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Every set we know of, looked up by name, code or any alias sellers,
+ * collection apps and OCR come up with
+ */
+export class SetRegistry {
+  private sets: SetInfo[];
+  private byKey = new Map<string, SetInfo>();
+  // Longest first, so "base set 2" is found before "base set"
+  private keys: string[];
+
+  constructor(sets: SetInfo[]) {
+    this.sets = sets;
+    for (const set of sets) {
+      for (const key of [set.name, set.code, ...set.aliases].map(normalizeSetText)) {
+        const existing = this.byKey.get(key);
+        if (existing && existing !== set) {
+          throw new ValidationError(`"${key}" names both ${existing.name} and ${set.name}`, 'sets');
+        }
+        this.byKey.set(key, set);
+      }
+    }
+    this.keys = Array.from(this.byKey.keys()).sort((a, b) => b.length - a.length);
+  }
+
+  list(): SetInfo[] {
+    return this.sets;
+  }
+
+  // The set a name, code or alias refers to on its own ("VIV", "swsh4", "Vivid")
+  resolve(text: string): SetInfo | null {
+    return this.byKey.get(normalizeSetText(text)) || null;
+  }
+
+  /**
+   * Sets mentioned anywhere in free text, in the order they appear. Each
+   * stretch of text counts towards one set only.
+   */
+  findMentions(text: string): SetInfo[] {
+    let remaining = ` ${normalizeSetText(text)} `;
+    const found: Array<{ set: SetInfo; at: number }> = [];
+
+    for (const key of this.keys) {
+      let at = remaining.indexOf(` ${key} `);
+      while (at !== -1) {
+        found.push({ set: this.byKey.get(key)!, at });
+        remaining = remaining.slice(0, at + 1) + '|'.repeat(key.length) + remaining.slice(at + key.length + 1);
+        at = remaining.indexOf(` ${key} `);
+      }
+    }
+
+    return found
+      .sort((a, b) => a.at - b.at)
+      .map(mention => mention.set)
+      .filter((set, index, sets) => sets.indexOf(set) === index);
+  }
+
+  // Sets whose cards are printed out of this total
+  withPrintedTotal(total: number): SetInfo[] {
+    return this.sets.filter(set => set.printedTotal === total);
+  }
+}
+
+export const validateSets = (stored: StoredSetInfo[]): SetInfo[] => {
+  if (!Array.isArray(stored)) {
+    throw new ValidationError('Set registry must be a list of sets', 'sets');
+  }
+
+  const codes = new Set<string>();
+  return stored.map(set => {
+    const releaseDate = new Date(set.releaseDate);
+    if (!set.name?.trim() || !set.code?.trim()) {
+      throw new ValidationError('Every set needs a name and a code', 'sets');
+    }
+    if (codes.has(set.code)) {
+      throw new ValidationError(`Set code ${set.code} is used twice`, 'sets');
+    }
+    if (isNaN(releaseDate.getTime())) {
+      throw new ValidationError(`${set.name} has an invalid release date`, 'sets');
+    }
+    if (!Number.isInteger(set.printedTotal) || set.printedTotal < 1) {
+      throw new ValidationError(`${set.name} has an invalid printed total`, 'sets');
+    }
+    codes.add(set.code);
+
+    return { ...set, aliases: set.aliases || [], releaseDate };
+  });
+};
+
+export const loadSets = async (filePath: string = DEFAULT_SETS_PATH): Promise<SetInfo[]> => {
+  return validateSets(await readJsonFile<StoredSetInfo[]>(filePath, []));
+};
+
+let registry: Promise<SetRegistry> | null = null;
+
+export const getSetRegistry = (): Promise<SetRegistry> => {
+  if (!registry) {
+    registry = loadSets(process.env.SETS_PATH || DEFAULT_SETS_PATH)
+      .then(sets => new SetRegistry(sets))
+      .catch(error => {
+        registry = null;
+        throw error;
+      });
+  }
+  return registry;
+};
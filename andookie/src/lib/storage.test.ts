@@ -0,0 +1,29 @@
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { JsonCollection, readJsonFile, writeJsonFile } from './storage';
+
+const scratchFile = (name: string): string => path.join(mkdtempSync(path.join(os.tmpdir(), 'andookie-storage-')), name);
+
+describe('writeJsonFile', () => {
+  it('lands concurrent writes in order, leaving no temp files', async () => {
+    const filePath = scratchFile('counter.json');
+    await Promise.all(Array.from({ length: 20 }, (_, count) => writeJsonFile(filePath, { count })));
+
+    expect(await readJsonFile(filePath, null)).toEqual({ count: 19 });
+    expect(readdirSync(path.dirname(filePath))).toEqual(['counter.json']);
+  });
+});
+
+describe('JsonCollection', () => {
+  it('keeps every record saved at once', async () => {
+    const filePath = scratchFile('records.json');
+    const collection = new JsonCollection<{ id: string }>(filePath, stored => stored);
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => collection.save({ id: `r${i}` })));
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toHaveLength(20);
+    expect(await new JsonCollection<{ id: string }>(filePath, stored => stored).list()).toHaveLength(20);
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/storage.ts
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DatabaseError } from './errors';
+
+// Root folder for the JSON files the app persists to
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * Read and parse a JSON file, returning the fallback when it doesn't exist yet
+ */
+export const readJsonFile = async <T>(filePath: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw new DatabaseError(`Failed to read ${path.basename(filePath)}: ${(error as Error).message}`);
+  }
+};
+
+// Writes waiting on each file, so they land in the order they were made
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * Write data as pretty-printed JSON. Goes through a temp file so a crash
+ * mid-write never leaves a half-written store behind. Writes to the same
+ * file are queued: each has its own temp file and replaces the file only
+ * after the one before it, so an older snapshot never overwrites a newer one.
+ */
+export const writeJsonFile = (filePath: string, data: unknown): Promise<void> => {
+  // Serialise now, so the write stores the data as it was when it was made
+  const json = JSON.stringify(data, null, 2) + '\n';
+
+  const previous = writeQueues.get(filePath) || Promise.resolve();
+  const write = previous.then(() => replaceFile(filePath, json));
+
+  // A failed write is reported to its caller and doesn't hold up the next
+  const settled = write.catch(() => {});
+  writeQueues.set(filePath, settled);
+  settled.then(() => {
+    if (writeQueues.get(filePath) === settled) {
+      writeQueues.delete(filePath);
+    }
+  });
+
+  return write;
+};
+
+const replaceFile = async (filePath: string, contents: string): Promise<void> => {
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, contents, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    throw new DatabaseError(`Failed to write ${path.basename(filePath)}: ${(error as Error).message}`);
+  }
+};
+
+// A record as JSON.parse hands it back, with its Dates turned into strings
+export type Stored<T> = T extends Date ? string
+  : T extends Array<infer Item> ? Array<Stored<Item>>
+  : T extends object ? { [K in keyof T]: Stored<T[K]> }
+  : T;
+
+/**
+ * A collection of records kept in one JSON file, loaded into memory on
+ * first use. `revive` restores anything JSON flattens (mostly Dates).
+ */
+export class JsonCollection<T extends { id: string }> {
+  private filePath: string;
+  private revive: (stored: Stored<T>) => T;
+  private records: Promise<Map<string, T>> | null = null;
+
+  constructor(filePath: string, revive: (stored: Stored<T>) => T) {
+    this.filePath = filePath;
+    this.revive = revive;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const records = await this.load();
+    return records.get(id) || null;
+  }
+
+  async list(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values());
+  }
+
+  async save(record: T): Promise<T> {
+    await this.saveMany([record]);
+    return record;
+  }
+
+  // One write for the whole batch
+  async saveMany(newRecords: T[]): Promise<void> {
+    const records = await this.load();
+    for (const record of newRecords) {
+      records.set(record.id, record);
+    }
+    await writeJsonFile(this.filePath, Array.from(records.values()));
+  }
+
+  /**
+   * Change one record based on its current state. The record is read,
+   * changed and put back without yielding to other requests, so two callers
+   * can never both act on the same state. `change` throws to leave it as is.
+   */
+  async update(id: string, change: (current: T | null) => T): Promise<T> {
+    const records = await this.load();
+    const current = records.get(id) || null;
+    const updated = change(current);
+    // Handed back as it was: nothing to write
+    if (updated === current) {
+      return updated;
+    }
+    records.set(updated.id, updated);
+
+    try {
+      await writeJsonFile(this.filePath, Array.from(records.values()));
+    } catch (error) {
+      // Not stored, so not claimed either, unless someone has changed it since
+      if (records.get(updated.id) === updated) {
+        if (current) records.set(id, current);
+        else records.delete(updated.id);
+      }
+      throw error;
+    }
+    return updated;
+  }
+
+  // Concurrent first calls share one read, so no caller ends up changing a
+  // copy of the records that another has since replaced
+  private load(): Promise<Map<string, T>> {
+    if (!this.records) {
+      this.records = readJsonFile<Stored<T>[]>(this.filePath, [])
+        .then(stored => new Map(stored.map(item => {
+          const record = this.revive(item);
+          return [record.id, record];
+        })))
+        .catch(error => {
+          this.records = null;
+          throw error;
+        });
+    }
+    return this.records;
+  }
+}
@@ -15,9 +15,22 @@ export interface UploadedImage {
     condition: CardCondition;
     marketPrice: number;
     ourOffer: number;
+    quantity: number;
+    offerBracket?: string;
+    offerPercentage?: number;
+    priceSpike?: boolean;
+    // What the offer was priced on instead of marketPrice when a spike was capped
+    cappedPrice?: number;
     image?: string;
     confidence?: number;
     originalText?: string;
+    catalogId?: string;
+    matchStrategy?: MatchStrategy;
+    language?: string;
+    foil?: boolean;
+    // Which uploaded photo the card was found in, and where
+    imageIndex?: number;
+    imageRegion?: BoundingBox;
   }
   
   export type CardCondition = 
@@ -35,7 +48,7 @@ export interface UploadedImage {
     unmatchedLines?: number;
   }
   
-  export interface ApiResponse<T = any> {
+  export interface ApiResponse<T = unknown> {
     success: boolean;
     data?: T;
     error?: string;
@@ -55,10 +68,73 @@ export interface UploadedImage {
     matched: number;
     unmatched: string[];
     unmatchedLines: number;
+    lineMatches: TextLineMatch[];
   }
   
-  export interface AcceptOfferRequest {
+  // Spreadsheet columns we understand, mapped to the header naming them
+  export type ImportField = 'name' | 'set' | 'setCode' | 'number' | 'condition' | 'quantity' | 'language' | 'foil';
+  export type ColumnMapping = Partial<Record<ImportField, string>>;
+  
+  export interface ImportPreviewResponse {
+    fileName: string;
+    delimiter: ',' | '\t' | ';';
+    headers: string[];
+    mapping: ColumnMapping;
+    // Collection app the file was exported from, when the header gives it away
+    format?: { id: string; name: string };
+    sampleRows: string[][];
+  }
+  
+  export interface ImportRowError {
+    row: number; // 1-based, counting the header
+    text: string;
+    error: string;
+  }
+  
+  // Same shape as a typed list, plus why each rejected row was rejected
+  export interface BulkImportResponse extends ProcessTextResponse {
+    rowErrors: ImportRowError[];
+  }
+  
+  // Catalog entry a text line might refer to, priced for the line's condition
+  export interface CardCandidate {
+    entry: CardDatabaseEntry;
+    score: number;
+    strategy: MatchStrategy;
+    marketPrice: number;
+    ourOffer: number;
+    offerBracket?: string;
+    offerPercentage?: number;
+  }
+  
+  export interface TextLineMatch {
+    line: string;
+    cardId: number;
+    ambiguous: boolean;
+    candidates: CardCandidate[];
+  }
+  
+  export interface CreateOfferRequest {
     cards: Card[];
+  }
+  
+  export type OfferStatus = 'open' | 'accepted' | 'expired';
+  
+  // Server-issued snapshot of what we'll pay; acceptance must reference it by id
+  export interface Offer {
+    id: string;
+    status: OfferStatus;
+    cards: Card[];
+    totalOffer: number;
+    totalMarketValue: number;
+    orderId?: string;
+    replacedBy?: string;
+    issuedAt: Date;
+    expiresAt: Date;
+  }
+  
+  export interface AcceptOfferRequest {
+    offerId: string;
     totalOffer: number;
     customerInfo: {
       email: string;
@@ -74,6 +150,8 @@ export interface UploadedImage {
   
   export interface AcceptOfferResponse {
     orderId: string;
+    // Opens the seller's label, packing slip and order decisions; see orderAccess.ts
+    accessToken: string;
     shippingLabel: {
       trackingNumber: string;
       labelUrl: string;
@@ -84,6 +162,91 @@ export interface UploadedImage {
     };
   }
   
+  export type CustomerInfo = AcceptOfferRequest['customerInfo'];
+  
+  export type OrderStatus =
+    | 'offered'
+    | 'accepted'
+    | 'label_issued'
+    | 'in_transit'
+    | 'received'
+    | 'graded'
+    | 'paid'
+    | 'adjusted'
+    | 'returned';
+  
+  export interface OrderStatusChange {
+    status: OrderStatus;
+    at: Date;
+    note?: string;
+  }
+  
+  // What happened to each card once we had it in hand
+  export type CardOutcome = 'pending' | 'accepted' | 'adjusted' | 'returned';
+  
+  export interface OrderCard extends Card {
+    outcome: CardOutcome;
+    // Filled in at intake once staff have the card in hand
+    gradedCondition?: CardCondition;
+    gradeNote?: string;
+    adjustedMarketPrice?: number;
+    adjustedOffer?: number;
+  }
+  
+  // Staff's verdict on one card of an order
+  export interface CardGrade {
+    cardId: number;
+    condition: CardCondition;
+    note?: string;
+  }
+  
+  export interface GradeOrderRequest {
+    grades: CardGrade[];
+    // Work out the adjusted offer without saving it
+    preview?: boolean;
+  }
+  
+  export type AdjustmentDecision = 'pending' | 'accepted' | 'return_requested';
+  
+  // Original vs adjusted offer the seller has to sign off on after grading
+  export interface OrderAdjustment {
+    originalTotal: number;
+    adjustedTotal: number;
+    difference: number;
+    decision: AdjustmentDecision;
+    gradedAt: Date;
+    decidedAt?: Date;
+  }
+  
+  export interface AdjustmentDecisionRequest {
+    decision: 'accept' | 'return';
+  }
+  
+  export interface Order {
+    id: string;
+    offerId: string;
+    status: OrderStatus;
+    history: OrderStatusChange[];
+    cards: OrderCard[];
+    totalOffer: number;
+    customerInfo: CustomerInfo;
+    shippingLabel: AcceptOfferResponse['shippingLabel'];
+    estimatedPayment: AcceptOfferResponse['estimatedPayment'];
+    adjustment?: OrderAdjustment;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+  
+  // Order as shown to whoever holds its id, without full contact details
+  export interface PublicOrder extends Omit<Order, 'customerInfo'> {
+    customer: {
+      name: string;
+      email: string;
+      city: string;
+      state: string;
+    };
+  }
+  
   export interface ErrorDetails {
     code: string;
     message: string;
@@ -96,15 +259,18 @@ export interface UploadedImage {
   }
   
   // OCR-related types
+  // Pixel rectangle within an uploaded photo
+  export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }
+  
   export interface OCRResult {
     text: string;
     confidence: number;
-    boundingBox?: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-    };
+    boundingBox?: BoundingBox;
   }
   
   export interface ImageProcessingResult {
@@ -119,12 +285,9 @@ export interface UploadedImage {
     cardNumber?: string;
     condition?: CardCondition;
     confidence: number;
-    boundingBox?: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-    };
+    boundingBox?: BoundingBox;
+    // Perceptual hash of the card as photographed, for matching against catalog art
+    imageHash?: string;
   }
   
   // Database-related types
@@ -139,6 +302,64 @@ export interface UploadedImage {
     lastUpdated: Date;
     variants: CardCondition[];
     imageUrl?: string;
+    priceData?: PriceData;
+  }
+  
+  // A printed expansion, with the other names sellers and apps use for it
+  export interface SetInfo {
+    name: string;
+    code: string; // Matches CardDatabaseEntry.setCode
+    aliases: string[];
+    releaseDate: Date;
+    // Collector number total printed on its cards ("/102"); secret rares run past it
+    printedTotal: number;
+  }
+  
+  // Staff edit to a catalog entry; either price change is stored as a manual price
+  export interface CatalogEntryUpdate {
+    marketPrice?: number;
+    variants?: CardCondition[];
+    priceOverride?: Pick<PriceData, 'marketPrice' | 'lowPrice' | 'midPrice' | 'highPrice'>;
+    // Drop a manual price so the next refresh takes the feed price again
+    clearOverride?: boolean;
+  }
+  
+  export interface AuditChange {
+    field: string;
+    from: unknown;
+    to: unknown;
+  }
+  
+  // Who changed what, for anything staff edit by hand
+  export interface AuditEntry {
+    id: string;
+    at: Date;
+    user: string;
+    action: string;
+    targetType: 'card' | 'order';
+    targetId: string;
+    changes: AuditChange[];
+  }
+  
+  export interface CatalogSearchQuery {
+    name?: string;
+    set?: string;
+    number?: string;
+    limit?: number;
+  }
+  
+  // How a description was tied to a catalog entry: by its printed collector
+  // number and set total, by fuzzy matching on the card and set names, or
+  // (for photos) by how closely the card looks like the catalog's picture
+  export type MatchStrategy = 'number' | 'name' | 'image';
+  
+  export interface MatchCandidate {
+    entry: CardDatabaseEntry;
+    score: number;
+    nameScore: number;
+    setScore: number;
+    numberScore: number;
+    strategy: MatchStrategy;
   }
   
   export interface PriceData {
@@ -150,6 +371,82 @@ export interface UploadedImage {
     source: 'tcgplayer' | 'ebay' | 'manual';
   }
   
+  // Pricing rules
+  // Market value bracket with its own buy rate; flatOffer (if set) replaces the percentage
+  export interface OfferBracket {
+    label: string;
+    minPrice: number;
+    maxPrice?: number;
+    percentage: number;
+    flatOffer?: number;
+  }
+  
+  export interface PricingRules {
+    priceBasis: 'market' | 'low' | 'mid' | 'high';
+    conditionMultipliers: Record<CardCondition, number>;
+    offerPercentage: number;
+    offerBrackets: OfferBracket[];
+    rarityAdjustments: Record<string, number>;
+    sourceAdjustments: Partial<Record<PriceData['source'], number>>;
+    minimumOffer: number;
+    offerValidityDays: number;
+    rounding: {
+      increment: number;
+      mode: 'down' | 'nearest' | 'up';
+    };
+    // Price as if the market had only risen this much within the window
+    priceSpike?: {
+      windowDays: number;
+      threshold: number;
+    };
+    // How feed prices are combined when providers disagree
+    reconciliation: {
+      strategy: 'median' | 'preferred';
+      preferredSources: PriceData['source'][];
+      maxAgeDays: number;
+    };
+  }
+  
+  export interface OfferQuote {
+    basePrice: number;
+    marketPrice: number;
+    offerPercentage: number;
+    ourOffer: number;
+    source: PriceData['source'];
+    bracket?: string;
+    flatOffer?: boolean;
+    // Set when the offer was held back because of a recent price spike,
+    // along with the capped price the offer was made on
+    spikeBaseline?: number;
+    cappedPrice?: number;
+  }
+  
+  // One recorded market price for a card, in Near Mint terms
+  export interface PricePoint {
+    at: Date;
+    marketPrice: number;
+    source: PriceData['source'];
+  }
+  
+  export interface PriceHistory {
+    id: string; // Catalog entry id
+    points: PricePoint[];
+  }
+  
+  // Perceptual hash of a catalog entry's reference picture
+  export interface CardImageHash {
+    id: string; // Catalog entry id
+    imageUrl: string; // The picture hashed; a new imageUrl needs hashing again
+    hash: string;
+    indexedAt: Date;
+  }
+  
+  export interface PriceHistoryResponse {
+    cardId: string;
+    condition: CardCondition;
+    points: PricePoint[];
+  }
+  
   // Condition multipliers for pricing
   export const CONDITION_MULTIPLIERS: Record<CardCondition, number> = {
     'Mint': 1.1,
@@ -173,7 +470,9 @@ export interface UploadedImage {
     CARD_NOT_FOUND = 'CARD_NOT_FOUND',
     INVALID_IMAGE = 'INVALID_IMAGE',
     RATE_LIMITED = 'RATE_LIMITED',
-    UNAUTHORIZED = 'UNAUTHORIZED'
+    UNAUTHORIZED = 'UNAUTHORIZED',
+    OFFER_EXPIRED = 'OFFER_EXPIRED',
+    ORDER_NOT_FOUND = 'ORDER_NOT_FOUND'
   }
   
   // Utility type for loading states
@@ -0,0 +1,65 @@
+// src/lib/utils.ts
+
+import { Card } from './types';
+
+export interface CardTotals {
+  totalCards: number;
+  totalMarketValue: number;
+  totalOffer: number;
+}
+
+// marketPrice and ourOffer are per copy, so every total has to weigh by quantity
+export const getCardTotals = (cards: Card[]): CardTotals => {
+  const totals = cards.reduce(
+    (sum, card) => ({
+      totalCards: sum.totalCards + card.quantity,
+      totalMarketValue: sum.totalMarketValue + card.marketPrice * card.quantity,
+      totalOffer: sum.totalOffer + card.ourOffer * card.quantity
+    }),
+    { totalCards: 0, totalMarketValue: 0, totalOffer: 0 }
+  );
+
+  return {
+    totalCards: totals.totalCards,
+    totalMarketValue: Math.round(totals.totalMarketValue * 100) / 100,
+    totalOffer: Math.round(totals.totalOffer * 100) / 100
+  };
+};
+
+export interface OfferBreakdownLine {
+  bracket: string;
+  totalCards: number;
+  totalMarketValue: number;
+  totalOffer: number;
+}
+
+// Offer subtotals per pricing bracket, in the order brackets first appear
+export const getOfferBreakdown = (cards: Card[]): OfferBreakdownLine[] => {
+  const groups = new Map<string, Card[]>();
+  for (const card of cards) {
+    const bracket = card.offerBracket || 'Standard';
+    groups.set(bracket, [...(groups.get(bracket) || []), card]);
+  }
+
+  return Array.from(groups.entries()).map(([bracket, bracketCards]) => ({
+    bracket,
+    ...getCardTotals(bracketCards)
+  }));
+};
+
+// For values interpolated into the HTML documents we render server-side
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Query parameter a seller's order links carry their access code in
+export const ORDER_TOKEN_PARAM = 'token';
+
+// A link to one of an order's pages that its seller can open
+export const withOrderAccessToken = (url: string, token: string): string => {
+  return `${url}${url.includes('?') ? '&' : '?'}${ORDER_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+};
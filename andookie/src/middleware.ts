@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_REALM, getAdminUser } from '@/lib/auth';
+
+// Everything under /admin and /api/admin is staff only
+export function middleware(request: NextRequest) {
+  if (getAdminUser(request.headers.get('authorization'))) {
+    return NextResponse.next();
+  }
+
+  return NextResponse.json(
+    { success: false, error: 'Authentication required' },
+    {
+      status: 401,
+      headers: { 'WWW-Authenticate': `Basic realm="${ADMIN_REALM}", charset="UTF-8"` }
+    }
+  );
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*']
+};
@@ -0,0 +1,13 @@
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Whatever a test file writes goes to its own scratch directory; the
+// catalog, sets and pricing rules are still read from data/
+const scratch = mkdtempSync(path.join(os.tmpdir(), 'andookie-test-'));
+
+process.env.OFFERS_PATH = path.join(scratch, 'offers.json');
+process.env.ORDERS_PATH = path.join(scratch, 'orders.json');
+process.env.PRICE_HISTORY_PATH = path.join(scratch, 'price-history.json');
+process.env.AUDIT_LOG_PATH = path.join(scratch, 'audit-log.json');
+process.env.IMAGE_INDEX_PATH = path.join(scratch, 'image-index.json');